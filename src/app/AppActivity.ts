@@ -1,4 +1,4 @@
-import { ManagedState, shadowObservable, observe } from "../core";
+import { ManagedState, ManagedStateSignal, shadowObservable, observe } from "../core";
 import { AppActivationContext } from "./AppActivationContext";
 import { AppComponent } from "./AppComponent";
 import { Application } from "./Application";
@@ -38,7 +38,10 @@ export class AppActivity extends AppComponent {
     return this.getManagedParent(Application);
   }
 
-  /** Activate this activity, optionally based on given captured path segments (returned by `AppActivationContext.match`, for a path such as `foo/bar/:id`, `foo/*name`, or `./:id`). This method is called automatically when the activity path matches the current target path, but may also be called directly. This method can be overridden to validate the captured path segments before activation. */
+  /**
+   * Activate this activity, optionally based on given captured path segments (returned by `AppActivationContext.match`, for a path such as `foo/bar/:id`, `foo/*name`, or `./:id`). This method is called automatically when the activity path matches the current target path, but may also be called directly. This method can be overridden to validate the captured path segments before activation.
+   * @note Long-running work during activation (e.g. fetching data in `onManagedStateActivatingAsync`) should use the signal that is passed to `onManagedStateActivatingAsync`, which is aborted when the activity is deactivated or destroyed before activation completes, e.g. when the target path changes again. Cancelled activations that were started automatically are ignored.
+   */
   async activateAsync(match?: AppActivationContext.MatchedPath) {
     this._matchedPath = Object.freeze(match || { path: "" });
     await this.activateManagedAsync();
@@ -85,12 +88,12 @@ export class AppActivity extends AppComponent {
           this.activity.activationContext &&
           (match = this.activity.activationContext.match(this.activity.path, this.activity))
         ) {
-          await this.activity.activateAsync(match);
+          await this.activity.activateAsync(match).catch(_ignoreCancellation);
         } else if (
           this.activity.managedState === ManagedState.ACTIVATING ||
           this.activity.managedState === ManagedState.ACTIVE
         ) {
-          await this.activity.deactivateManagedAsync();
+          await this.activity.deactivateManagedAsync().catch(_ignoreCancellation);
         }
       }
     }
@@ -106,3 +109,8 @@ export namespace AppActivity {
     path?: string;
   }
 }
+
+/** Helper function to ignore errors for cancelled state transitions, and rethrow all other errors */
+function _ignoreCancellation(error: any) {
+  if (!ManagedStateSignal.isCancellation(error)) throw error;
+}
@@ -5,6 +5,7 @@ import {
   managedChild,
   ManagedList,
   ManagedService,
+  ManagedStateSignal,
   ManagedCoreEvent,
 } from "../core";
 import { UIRenderContext } from "../ui";
@@ -76,6 +77,12 @@ export class Application extends Component {
   @managedChild
   renderContext?: UIRenderContext;
 
+  /** Names of services that must be ready before the application is activated, and before any activities are created (see `ManagedService.startAsync`) */
+  requiredServices: Array<string | ManagedService.Token> = [];
+
+  /** The maximum time to wait for required services (in milliseconds), after which activation fails; defaults to 30 seconds */
+  requiredServicesTimeout = 30000;
+
   /** Activity activation context as a managed child object, propagated to all (nested) `AppComponent` instances. This object is set by specialized application classes such as `BrowserApplication` to match the capabilities of the runtime platform. */
   @managedChild
   activationContext?: AppActivationContext;
@@ -94,6 +101,18 @@ export class Application extends Component {
     await this.activateManagedAsync();
   }
 
+  /**
+   * Wait until all services listed in `requiredServices` have been registered and started, including services that are registered within the scope of this application.
+   * @returns A promise that resolves when all services are ready, or is rejected if any of the services failed to start, or have not been started within the time set in `requiredServicesTimeout`
+   */
+  async whenServicesReadyAsync() {
+    await ManagedService.whenReadyAsync(
+      this.requiredServices,
+      this,
+      this.requiredServicesTimeout
+    );
+  }
+
   /** Deactivate this application, immediately destroying all actvities */
   async deactivateAsync() {
     await this.deactivateManagedAsync();
@@ -135,9 +154,18 @@ export class Application extends Component {
     return viewActivity;
   }
 
-  /** Returns the currently registered service with given name, if any. This is an alias of `ManagedService.find()`. */
-  findService(name: string) {
-    return ManagedService.find(name);
+  /** Returns the currently registered service with given name, if any, including services that are registered within the scope of this application. This is an alias of `ManagedService.find()`. */
+  findService<T extends ManagedService>(token: ManagedService.Token<T>): T | undefined;
+  findService(name: string | ManagedService.Token): ManagedService | undefined;
+  findService(name: string | ManagedService.Token) {
+    return ManagedService.find(name, this);
+  }
+
+  /** Wait for required services before activating */
+  protected async onManagedStateActivatingAsync(signal?: ManagedStateSignal) {
+    await super.onManagedStateActivatingAsync(signal);
+    await this.whenServicesReadyAsync();
+    signal && signal.throwIfAborted();
   }
 }
 
@@ -150,5 +178,9 @@ export namespace Application {
     renderContext?: UIRenderContext;
     /** Platform dependent activation context (router) */
     activationContext?: AppActivationContext;
+    /** Names of services that must be ready before the application is activated */
+    requiredServices?: Array<string | ManagedService.Token>;
+    /** The maximum time to wait for required services (in milliseconds) */
+    requiredServicesTimeout?: number;
   }
 }
@@ -1,18 +1,47 @@
 import { err, ERROR } from "../errors";
 import { Component } from "./Component";
+import {
+  ManagedChangeEvent,
+  ManagedListBatchChangeEvent,
+  ManagedObjectAddedEvent,
+  ManagedObjectRemovedEvent,
+} from "./ManagedEvent";
 import { ManagedList } from "./ManagedList";
+import { ManagedMap } from "./ManagedMap";
+import { ManagedObject } from "./ManagedObject";
 import { logUnhandledException } from "./UnhandledErrorEmitter";
 import { HIDDEN } from "./util";
-import { formatValue } from "./format";
+import { formatValue, getFilter, validateFormat } from "./format";
 import { I18nString } from "./I18nService";
+import {
+  BindingExpression,
+  isBindingExpression,
+  parseBindingExpression,
+  splitBindingFilters,
+} from "./BindingExpression";
 
 /** Running ID for new `Binding` instances */
 let _nextBindingUID = 16;
 
+/** Names of filters that operate on lists; bindings that use these filters also observe list items */
+const LIST_FILTERS = ["count", "sum", "where", "first", "last"];
+
+/** Async iterator interface, used for async bindings (without depending on ES2018 types) */
+interface _AsyncIterator {
+  next(): Promise<{ done?: boolean; value: any }>;
+  return?(): any;
+}
+
+/** Prefix for property IDs of reference links from a bound instance to an observed list and its items */
+const OBSERVED_PROP_ID_PREFIX = HIDDEN.PROPERTY_ID_PREFIX + "*bound:";
+
 /** Definition of a reader instance that provides a bound value */
 interface BoundReader {
   readonly boundParent: Component;
+  readonly source?: any;
   getValue(hint?: any): any;
+  filterValue(value: any): any;
+  setValue(value: any): void;
 }
 
 /**
@@ -28,19 +57,34 @@ export class Binding {
   /** Create a new binding for given property and default value. See `bind`. */
   constructor(source?: string, defaultValue?: any) {
     let path: string[] | undefined;
+    let expression: BindingExpression | undefined;
+    let expressionBindings: { [identifier: string]: Binding } = Object.create(null);
     let propertyName = source !== undefined ? String(source) : undefined;
     if (propertyName) this._source = source;
 
-    // parse property name, path, and filters
+    // parse property name, path, and filters; or an expression
     if (propertyName !== undefined) {
-      let parts = String(propertyName).split("|");
-      path = parts.shift()!.split(".");
-      propertyName = path.shift()!;
-      while (propertyName[0] === "!") {
-        propertyName = propertyName.slice(1);
-        this.addFilter("!");
+      let parts = splitBindingFilters(String(propertyName));
+      let main = parts.shift()!;
+      if (isBindingExpression(main)) {
+        // add nested bindings for all identifiers
+        expression = parseBindingExpression(main);
+        this._expressionFilters = expression.filters;
+        this._bindings = expression.identifiers.map(identifier => {
+          let binding = new Binding(identifier);
+          binding.parent = this;
+          return (expressionBindings[identifier] = binding);
+        });
+        propertyName = undefined;
+      } else {
+        path = main.split(".");
+        propertyName = path.shift()!;
+        while (propertyName[0] === "!") {
+          propertyName = propertyName.slice(1);
+          this.addFilter("!");
+        }
+        if (!path.length) path = undefined;
       }
-      if (!path.length) path = undefined;
       for (let part of parts) this.addFilter(part);
     }
     this.propertyName = propertyName;
@@ -51,11 +95,22 @@ export class Binding {
       /** Create a new reader, linked to given bound parent */
       constructor(public readonly boundParent: Component) {}
 
+      /** The last value that was read, before applying any filters */
+      source?: any;
+
       /** The current (filtered) value for this binding */
       getValue(propertyHint?: any) {
         let result =
           arguments.length > 0
             ? propertyHint
+            : expression
+            ? expression.evaluate(identifier => {
+                let bound = this.boundParent.getBoundBinding(
+                  expressionBindings[identifier]
+                );
+                if (!bound) throw err(ERROR.Binding_NotFound, identifier);
+                return bound.value;
+              })
             : propertyName !== undefined
             ? (this.boundParent as any)[propertyName]
             : undefined;
@@ -76,11 +131,55 @@ export class Binding {
           }
         }
 
-        // return filtered result
+        // return filtered result, or unresolved value for async bindings
+        this.source = result;
+        if (self._async) {
+          return self._async.filter ? self._async.filter(result, this.boundParent) : result;
+        }
+        return this.filterValue(result);
+      }
+
+      /** Returns given value, filtered using all filters (after resolving, for async bindings) */
+      filterValue(value: any) {
         if (self._filter) {
-          result = self._filter(result, this.boundParent);
+          value = self._filter(value, this.boundParent);
+        }
+        return value === undefined && defaultValue !== undefined ? defaultValue : value;
+      }
+
+      /** Write given value back to the bound property or nested property */
+      setValue(value: any) {
+        if (propertyName === undefined) throw err(ERROR.Binding_TwoWay, source);
+        if (!path) {
+          (this.boundParent as any)[propertyName] = value;
+          return;
+        }
+
+        // find the object that contains the nested property
+        let object = (this.boundParent as any)[propertyName];
+        for (let i = 0; i < path.length - 1 && object != undefined; i++) {
+          let p = path[i];
+          if (
+            typeof object === "object" &&
+            !(p in object) &&
+            typeof object.get === "function"
+          ) {
+            object = object.get(p);
+          } else {
+            object = object[p];
+          }
+        }
+        if (object == undefined) throw err(ERROR.Binding_TwoWay, source);
+
+        // set the property or map key, and emit a change event on records
+        let key = path[path.length - 1];
+        if (object instanceof ManagedMap) {
+          if (value instanceof ManagedObject) object.set(key, value);
+          else object.unset(key);
+        } else {
+          object[key] = value;
+          if (object instanceof ManagedObject) object.emitChange();
         }
-        return result === undefined && defaultValue !== undefined ? defaultValue : result;
       }
     };
   }
@@ -113,10 +212,17 @@ export class Binding {
   /**
    * Add a filter to this binding, which transforms values to a specific type or format, optionally localized using the currently registered `I18nService`. Filters can be chained by adding multiple filters in order of execution.
    * The argument may be any of the format placeholders that are available for `strf`, except for comments and plural forms -- without the leading `%` sign or grouping `{` and `}`, e.g. `s`, `+8i`, `.5f`, `?`, and `local:date`.
+   * Filters that aggregate list items include `count`, `sum:total`, `where:done:true`, `first`, and `last`. If the bound value is a `ManagedList`, bindings that use these filters are updated whenever the list itself changes, or any of its items emit a change event (see `ManagedObject.emitChange`).
+   * Custom filters can be added using `registerFilter`; filter names are checked when the binding is bound to a component, since filters may be registered after the binding has been created.
    * @note Filters can also be specified after the `|` (pipe) separator in string argument given to the `Binding` constructor, or `bind` function.
    */
   addFilter(fmt: string) {
+    if (this._twoWay) throw err(ERROR.Binding_TwoWay, this._source);
     fmt = String(fmt).trim();
+    if (fmt === "await") return this.async();
+    if (!this._formats) this._formats = [];
+    this._formats.push(fmt);
+    if (LIST_FILTERS.indexOf(fmt.split(":")[0]) >= 0) this._observeListItems = true;
 
     // store new chained filter
     let oldFilter = this._filter;
@@ -129,6 +235,7 @@ export class Binding {
 
   /** Add a filter to this binding to compare the bound value to the given value(s), the result is always either `true` (at least one match) or `false` (none match) */
   match(...values: any[]) {
+    if (this._twoWay) throw err(ERROR.Binding_TwoWay, this._source);
     let oldFilter = this._filter;
     this._filter = (v, boundParent) => {
       if (oldFilter) v = oldFilter(v, boundParent);
@@ -139,6 +246,7 @@ export class Binding {
 
   /** Add a filter to this binding to compare the bound value to the given value(s), the result is always either `true` (none match) or `false` (at least one match) */
   nonMatch(...values: any[]) {
+    if (this._twoWay) throw err(ERROR.Binding_TwoWay, this._source);
     let oldFilter = this._filter;
     this._filter = (v, boundParent) => {
       if (oldFilter) v = oldFilter(v, boundParent);
@@ -152,6 +260,7 @@ export class Binding {
    * @note The combined binding can only be bound to a single component, e.g. within a list view cell, bindings targeting both the list element and the activity can **not** be combined using this method.
    */
   and(source: string, defaultValue?: any) {
+    if (this._twoWay) throw err(ERROR.Binding_TwoWay, this._source);
     let binding = new Binding(source, defaultValue);
     binding.parent = this;
     if (!this._bindings) this._bindings = [];
@@ -174,6 +283,7 @@ export class Binding {
    * @note The combined binding can only be bound to a single component, e.g. within a list view cell, bindings targeting both the list element and the activity can **not** be combined using this method.
    */
   or(source: string, defaultValue?: any) {
+    if (this._twoWay) throw err(ERROR.Binding_TwoWay, this._source);
     let binding = new Binding(source, defaultValue);
     binding.parent = this;
     if (!this._bindings) this._bindings = [];
@@ -191,6 +301,72 @@ export class Binding {
     return this;
   }
 
+  /**
+   * Make this binding a two-way binding: changes to the bound property of the _component_ (e.g. the `value` property of an input field) are written back to the bound property on the bound parent component, including nested properties (e.g. `customer.name`). A change event is emitted on managed objects that contain a nested property (e.g. a `ManagedRecord`), so that other bindings are updated as well.
+   * @note Two-way bindings cannot be combined with filters or other bindings, since filtered values cannot be written back.
+   * @exception Throws an error if this binding already includes filters or other bindings.
+   */
+  twoWay() {
+    if (this.propertyName === undefined || this._filter || this._bindings || this._async) {
+      throw err(ERROR.Binding_TwoWay, this._source);
+    }
+    this._twoWay = true;
+    return this;
+  }
+
+  /** True if this is a two-way binding, see `twoWay` */
+  get isTwoWay() {
+    return !!this._twoWay;
+  }
+
+  /** @internal True if this binding uses filters that operate on lists, and the bound list and its items should be observed */
+  get observesListItems() {
+    return !!this._observeListItems;
+  }
+
+  /** @internal Throws an error if any of the filters used by this binding do not exist (anymore) */
+  validateFilters() {
+    if (this._formats) this._formats.forEach(validateFormat);
+    if (this._expressionFilters) {
+      for (let name of this._expressionFilters) {
+        if (!getFilter(name)) throw err(ERROR.Format_Type, name);
+      }
+    }
+  }
+
+  /**
+   * Make this binding an async binding: bound values that are promises or async iterables are resolved before updating components. Until a promise is resolved or an async iterable yields its first value, the `pending` value is used (if any); when a promise is rejected or an iterable throws an error, the `error` value is used, or the result of calling the `error` function with the error (if not specified, the error is logged as an unhandled exception and the value is set to undefined).
+   * Results from promises or async iterables are dropped as soon as the bound value changes, and async iterables are returned (i.e. stopped) at that point, as well as when all bound components have been unbound or destroyed.
+   * Filters that are added _before_ calling this method are applied to the promise or iterable itself, filters that are added afterwards are applied to resolved values.
+   * @note The `await` filter (e.g. `bind("user.avatar|await")`) is equivalent to calling this method without options.
+   */
+  async(options: Binding.AsyncOptions = {}) {
+    if (this._twoWay) throw err(ERROR.Binding_TwoWay, this._source);
+    if (!this._async) {
+      this._async = { filter: this._filter, options };
+      this._filter = undefined;
+    } else {
+      this._async.options = options;
+    }
+    return this;
+  }
+
+  /** True if this is an async binding, see `async` */
+  get isAsync() {
+    return !!this._async;
+  }
+
+  /** @internal Returns the value that should be used while given async value is pending, or if an error occurred */
+  getAsyncValue(error?: { error: any }) {
+    let options = (this._async && this._async.options) || {};
+    if (!error) return options.pending;
+    if (!("error" in options)) {
+      logUnhandledException(error.error);
+      return undefined;
+    }
+    return typeof options.error === "function" ? options.error(error.error) : options.error;
+  }
+
   /** Log a message to the console whenever the value of this binding changes, for debugging purposes */
   debuggerLog() {
     let oldFilter = this._filter;
@@ -205,6 +381,24 @@ export class Binding {
   /** Chained filter function, if any */
   private _filter?: (v: any, boundParent: Component) => any;
 
+  /** True if this is a two-way binding */
+  private _twoWay?: boolean;
+
+  /** True if this binding uses filters that operate on lists */
+  private _observeListItems?: boolean;
+
+  /** Options and filter(s) to be applied before resolving, for async bindings */
+  private _async?: {
+    filter?: (v: any, boundParent: Component) => any;
+    options: Binding.AsyncOptions;
+  };
+
+  /** @internal Format specs and filters that are used by this binding, validated when bound */
+  protected _formats?: string[];
+
+  /** Names of filters that are called by the binding expression, if any */
+  private _expressionFilters?: string[];
+
   /** Binding source text */
   private _source?: string;
 }
@@ -226,6 +420,12 @@ export class StringFormatBinding extends Binding {
       });
     }
 
+    // store format placeholders that use filters, for validation
+    format.replace(/\%(?:\d+\$)?\{([^\}]*)\}/g, (s, fmt) => {
+      if (fmt.indexOf("*") < 0) (this._formats || (this._formats = [])).push(fmt);
+      return s;
+    });
+
     // store bindings for use by component constructor
     let bindings = (this._bindings = args.map(a => {
       let binding = a instanceof Binding ? a : new Binding(a);
@@ -262,6 +462,15 @@ export namespace Binding {
     isComponentBinding(): true;
   }
 
+  /** Options for async bindings, see `Binding.async` */
+  export interface AsyncOptions {
+    /** Value that is used while a promise or async iterable is pending */
+    pending?: any;
+
+    /** Value that is used when a promise is rejected or an async iterable throws an error, or a function that returns such a value for given error */
+    error?: any;
+  }
+
   /**
    * @internal A list of components that are actively bound to a specific binding. Also includes a method to update the value on all components, using the `Component.updateBoundValue` method.
    */
@@ -276,7 +485,8 @@ export namespace Binding {
         this.parent = parent;
       }
 
-      // set own properties
+      // check filters and set own properties
+      binding.validateFilters();
       this.propertyName = binding.propertyName;
       this._reader = new binding.Reader(boundParent);
     }
@@ -295,7 +505,16 @@ export namespace Binding {
     /** The current bound value, taken from the bound parent component (or cached) */
     get value() {
       // use existing value, or get a value from the reader
-      return this._updatedValue ? this._lastValue : this._reader.getValue();
+      if (this._updatedValue) return this._lastValue;
+      let value = this._readValue();
+      return this.binding.isAsync ? this._resolveAsync(value) : value;
+    }
+
+    /** Write given value back to the bound parent component (for two-way bindings, see `Binding.twoWay`), and update all components with the resulting value */
+    writeValue(value: any) {
+      if (this._updatedValue && this._lastValue === value) return;
+      this._reader.setValue(value);
+      this.updateComponents();
     }
 
     /** Update all components in the list with a new value. The current value of the source property (i.e. using `Binding.propertyName`) may be passed in if it is already known. */
@@ -303,11 +522,174 @@ export namespace Binding {
       if (!this.count && !this.parent) {
         // do not update, invalidate stored value
         this._updatedValue = false;
+        this._observeList();
+        this._stopAsync();
         return;
       }
 
-      // get a new value and check if an update is even necessary
-      let value = this._reader.getValue(...arguments); // _v if given
+      // get a new value (resolving async values), and update if necessary
+      let value = this._readValue(...arguments); // _v if given
+      if (this.binding.isAsync) value = this._resolveAsync(value);
+      this._update(value);
+    }
+
+    /** Remove given component from this list, and stop observing list items and async iterables if there are no more components */
+    remove(target: Component) {
+      super.remove(target);
+      if (!this.count && !this.parent) {
+        this._observeList();
+        this._stopAsync();
+      }
+      return this;
+    }
+
+    /** Stop iterating over async iterables when destroyed */
+    protected async onManagedStateDestroyingAsync() {
+      await super.onManagedStateDestroyingAsync();
+      this._stopAsync();
+    }
+
+    /** Returns a new value from the reader (with source value, if given), and observes the source list and its items if needed */
+    private _readValue(_v?: any) {
+      let value = this._reader.getValue(...arguments);
+      if (this.binding.observesListItems && (this.count || this.parent)) {
+        this._observeList(this._reader.source);
+      }
+      return value;
+    }
+
+    /** Observe given list and all of its items, stop observing all other objects (if no list given, stops observing altogether); items are linked once, and links are updated when items are added or removed; components are updated whenever an observed object emits a change event */
+    private _observeList(list?: any) {
+      if (!(list instanceof ManagedList) || !list.managedState) list = undefined;
+      if (list === this._observedList) return;
+
+      // stop observing the previous list and its items
+      let refs = this[HIDDEN.REF_PROPERTY];
+      for (let propId in refs) {
+        let ref = refs[propId];
+        if (
+          ref &&
+          propId.slice(0, OBSERVED_PROP_ID_PREFIX.length) === OBSERVED_PROP_ID_PREFIX
+        ) {
+          ManagedObject._discardRefLink(ref);
+        }
+      }
+      this._observedList = list;
+      if (!list) return;
+
+      // observe the list itself, and update item links on change
+      ManagedObject._createRefLink(
+        this,
+        list,
+        OBSERVED_PROP_ID_PREFIX + list.managedId,
+        e => {
+          if (e instanceof ManagedObjectRemovedEvent) {
+            this._unobserveItem(e.object);
+          } else if (e instanceof ManagedObjectAddedEvent) {
+            this._observeItem(e.object);
+          } else if (e instanceof ManagedListBatchChangeEvent) {
+            e.removed.forEach(object => this._unobserveItem(object));
+            e.added.forEach(object => this._observeItem(object));
+          }
+          if (e instanceof ManagedChangeEvent) this.updateComponents();
+        },
+        () => {
+          this._observeList();
+        }
+      );
+      list.forEach((object: any) => this._observeItem(object));
+    }
+
+    /** Observe given list item, if not observed already */
+    private _observeItem(object: ManagedObject) {
+      if (!(object instanceof ManagedObject) || !object.managedState) return;
+      let propId = OBSERVED_PROP_ID_PREFIX + object.managedId;
+      if (this[HIDDEN.REF_PROPERTY][propId]) return;
+      ManagedObject._createRefLink(this, object, propId, e => {
+        if (e instanceof ManagedChangeEvent) this.updateComponents();
+      });
+    }
+
+    /** Stop observing given list item, unless it is the observed list itself */
+    private _unobserveItem(object: ManagedObject) {
+      if (object === this._observedList) return;
+      let ref = this[HIDDEN.REF_PROPERTY][OBSERVED_PROP_ID_PREFIX + object.managedId];
+      if (ref) ManagedObject._discardRefLink(ref);
+    }
+
+    /** Returns the value to be used for given unresolved value of an async binding, and starts resolving promises and async iterables; results are only used if the unresolved value has not changed in the meantime */
+    private _resolveAsync(value: any): any {
+      if (this._asyncSource === value && this._asyncSet) return this._asyncValue;
+      this._stopAsync();
+      this._asyncSource = value;
+      this._asyncSet = true;
+      const resolved = (result: any, error?: { error: any }) => {
+        if (this._asyncSource !== value || !this.managedState) return false;
+        this._asyncValue = error
+          ? this.binding.getAsyncValue(error)
+          : this._reader.filterValue(result);
+        if (!this.count && !this.parent) return false;
+        this._update(this._asyncValue);
+        return true;
+      };
+      if (value && typeof value.then === "function") {
+        // resolve promise
+        Promise.resolve(value)
+          .then(resolved, error => resolved(undefined, { error }))
+          .catch(logUnhandledException);
+      } else if (value && typeof value[Symbol.asyncIterator] === "function") {
+        // iterate over all values until done, or until the source changes
+        // or no components are bound anymore (returning the iterator)
+        let iterator: _AsyncIterator = (this._asyncIterator = value[
+          Symbol.asyncIterator
+        ]());
+        const next = () => {
+          iterator
+            .next()
+            .then(
+              result => {
+                if (result.done) {
+                  if (this._asyncIterator === iterator) this._asyncIterator = undefined;
+                } else if (resolved(result.value)) {
+                  next();
+                } else if (this._asyncIterator === iterator) {
+                  this._stopAsync();
+                }
+              },
+              error => {
+                if (this._asyncIterator === iterator) this._asyncIterator = undefined;
+                resolved(undefined, { error });
+              }
+            )
+            .catch(error => {
+              if (this._asyncIterator === iterator) this._stopAsync();
+              logUnhandledException(error);
+            });
+        };
+        next();
+      } else {
+        return (this._asyncValue = this._reader.filterValue(value));
+      }
+      return (this._asyncValue = this.binding.getAsyncValue());
+    }
+
+    /** Stop resolving the current unresolved value of an async binding, and return the current async iterator, if any */
+    private _stopAsync() {
+      let iterator = this._asyncIterator;
+      this._asyncIterator = undefined;
+      this._asyncSource = undefined;
+      this._asyncSet = false;
+      if (iterator && iterator.return) {
+        try {
+          Promise.resolve(iterator.return()).catch(logUnhandledException);
+        } catch (err) {
+          logUnhandledException(err);
+        }
+      }
+    }
+
+    /** Update all components (or the parent binding) with given value, if needed */
+    private _update(value: any) {
       if (!this._updatedValue || this._lastValue !== value) {
         this._updatedValue = true;
         let oldValue = this._lastValue;
@@ -336,6 +718,15 @@ export namespace Binding {
     /** True if stored value is up to date */
     private _updatedValue?: boolean;
 
+    /** Last unresolved value of an async binding, and the current value to be used for it */
+    private _asyncSource?: any;
+    private _asyncValue?: any;
+    private _asyncSet?: boolean;
+    private _asyncIterator?: _AsyncIterator;
+
+    /** List that is currently observed along with its items, see `_observeList` */
+    private _observedList?: ManagedList;
+
     private _reader: InstanceType<Binding["Reader"]>;
     private _lastValue: any;
   }
@@ -352,12 +743,21 @@ export namespace Binding {
  *
  * For convenience, `!property` is automatically rewritten as `property|!` to negate property values, and `!!property` to convert any value to a boolean value.
  *
+ * Instead of a property name, the first argument may also contain an expression, e.g. `count > 0 ? items.length : 'none'`. Expressions may contain literal values (numbers, quoted strings, `true`, `false`, `null`, and `undefined`), property paths, unary operators (`!`, `-`, `+`), arithmetic, comparison, and logical operators (including `??`), conditional (ternary) expressions, parentheses, and calls to filters (e.g. `uc(name)` or `or(title, 'Untitled')`). All properties that are referenced by the expression are observed. Filters may still be added after a `|` character.
+ *
  * A default value may also be specified. This value is used when the bound value itself is undefined.
  */
 export function bind(propertyName?: string, defaultValue?: any) {
   return new Binding(propertyName, defaultValue);
 }
 
+/**
+ * Returns a new two-way binding, which can be used as a component preset (see `Component.with`) in the same way as `bind()`, but also writes changes to the bound component property back to the bound parent component. See `Binding.twoWay`.
+ */
+export function bind2(propertyName: string, defaultValue?: any) {
+  return new Binding(propertyName, defaultValue).twoWay();
+}
+
 /**
  * Returns a new binding, which can be used as a component preset (see `Component.with`) to update components dynamically with a string that includes property values from the bound parent component, such as the `AppActivity` for a view, the `Application` for an activity, or the `ViewComponent` for nested views.
  *
@@ -0,0 +1,272 @@
+import { err, ERROR } from "../errors";
+import { getFilter } from "./format";
+
+/** Function that evaluates (part of) a compiled expression, using given function to look up identifier values */
+type Evaluator = (lookup: (identifier: string) => any) => any;
+
+/** Pattern that matches binding sources that are simple property paths (optionally negated with `!`) rather than expressions */
+const SIMPLE_SOURCE = /^!*[^\s'"()=<>+\-*\/%?:&|,!]*$/;
+
+/** Pattern that matches a single token: whitespace, number, string, identifier, or operator */
+const TOKEN = /\s*(?:(\d+(?:\.\d+)?(?:[eE][-+]?\d+)?)|('(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")|([A-Za-z_$][\w$]*)|(===|!==|==|!=|<=|>=|&&|\|\||\?\?|[-+*\/%<>!?:().,]))/g;
+
+/** Reserved words that are parsed as literal values */
+const LITERALS: { [word: string]: any } = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined,
+};
+
+/** Binary operators, by precedence level (lowest first) */
+const BINARY_OPS: Array<{ [op: string]: (a: any, b: any) => any }> = [
+  { "??": (a, b) => (a != undefined ? a : b) },
+  { "||": (a, b) => a || b },
+  { "&&": (a, b) => a && b },
+  {
+    "===": (a, b) => a === b,
+    "!==": (a, b) => a !== b,
+    "==": (a, b) => a == b,
+    "!=": (a, b) => a != b,
+  },
+  {
+    "<": (a, b) => a < b,
+    "<=": (a, b) => a <= b,
+    ">": (a, b) => a > b,
+    ">=": (a, b) => a >= b,
+  },
+  { "+": (a, b) => a + b, "-": (a, b) => a - b },
+  { "*": (a, b) => a * b, "/": (a, b) => a / b, "%": (a, b) => a % b },
+];
+
+/** @internal A compiled binding expression, see `parseBindingExpression` */
+export interface BindingExpression {
+  /** All (top level) identifiers that are referenced by the expression, i.e. properties of the bound parent component */
+  readonly identifiers: string[];
+
+  /** Names of all filters that are called by the expression */
+  readonly filters: string[];
+
+  /** Evaluate the expression, using given function to look up values of identifiers */
+  evaluate(lookup: (identifier: string) => any): any;
+}
+
+/** @internal Returns true if given binding source text (before any filters) should be parsed as an expression, rather than a simple property path */
+export function isBindingExpression(source: string) {
+  return !SIMPLE_SOURCE.test(source.trim());
+}
+
+/** @internal Split given binding source text into an expression or property path, and filters, separated by single `|` characters (outside of quoted strings) */
+export function splitBindingFilters(source: string) {
+  let result: string[] = [];
+  let start = 0;
+  let quote: string | undefined;
+  for (let i = 0; i < source.length; i++) {
+    let c = source[i];
+    if (quote) {
+      if (c === "\\") i++;
+      else if (c === quote) quote = undefined;
+    } else if (c === "'" || c === '"') {
+      quote = c;
+    } else if (c === "|") {
+      if (source[i + 1] === "|") i++;
+      else {
+        result.push(source.slice(start, i));
+        start = i + 1;
+      }
+    }
+  }
+  result.push(source.slice(start));
+  return result;
+}
+
+/**
+ * @internal Parse given binding expression, which may contain literal values (numbers, quoted strings, `true`, `false`, `null`, and `undefined`), property paths (e.g. `items.length`), unary operators (`!`, `-`, and `+`), arithmetic and comparison operators, logical operators (`&&`, `||`, `??`), conditional (ternary) expressions, parentheses, and calls to filters (e.g. `uc(name)`, or `or(title, 'Untitled')`).
+ * @exception Throws an error if the expression is invalid. Filters are only looked up when the expression is evaluated.
+ */
+export function parseBindingExpression(source: string): BindingExpression {
+  let tokens = _tokenize(source);
+  let pos = 0;
+  let identifiers: string[] = [];
+  let filters: string[] = [];
+
+  /** Helper function to throw a syntax error at the current position */
+  const fail = (): never => {
+    let token = tokens[pos];
+    throw err(
+      ERROR.Binding_Syntax,
+      source + (token ? " (at " + JSON.stringify(token.text) + ")" : " (at end)")
+    );
+  };
+
+  /** Helper function to consume given operator token, if it is next */
+  const accept = (op: string) => {
+    let token = tokens[pos];
+    if (token && token.type === "op" && token.text === op) {
+      pos++;
+      return true;
+    }
+    return false;
+  };
+
+  /** Helper function to consume given operator token, or fail */
+  const expect = (op: string) => {
+    if (!accept(op)) fail();
+  };
+
+  const parseConditional = (): Evaluator => {
+    let test = parseBinary(0);
+    if (!accept("?")) return test;
+    let a = parseConditional();
+    expect(":");
+    let b = parseConditional();
+    return lookup => (test(lookup) ? a(lookup) : b(lookup));
+  };
+
+  const parseBinary = (level: number): Evaluator => {
+    if (level >= BINARY_OPS.length) return parseUnary();
+    let ops = BINARY_OPS[level];
+    let left = parseBinary(level + 1);
+    for (;;) {
+      let token = tokens[pos];
+      let f = token && token.type === "op" && ops[token.text];
+      if (!f) return left;
+      pos++;
+      let a = left;
+      let b = parseBinary(level + 1);
+      let op = f;
+
+      // evaluate right hand side of logical operators only if needed
+      switch (token.text) {
+        case "&&":
+          left = lookup => a(lookup) && b(lookup);
+          break;
+        case "||":
+          left = lookup => a(lookup) || b(lookup);
+          break;
+        case "??":
+          left = lookup => {
+            let v = a(lookup);
+            return v != undefined ? v : b(lookup);
+          };
+          break;
+        default:
+          left = lookup => op(a(lookup), b(lookup));
+      }
+    }
+  };
+
+  const parseUnary = (): Evaluator => {
+    if (accept("!")) {
+      let f = parseUnary();
+      return lookup => !f(lookup);
+    }
+    if (accept("-")) {
+      let f = parseUnary();
+      return lookup => -f(lookup);
+    }
+    if (accept("+")) {
+      let f = parseUnary();
+      return lookup => +f(lookup);
+    }
+    return parsePostfix(parsePrimary());
+  };
+
+  const parsePostfix = (f: Evaluator): Evaluator => {
+    while (accept(".")) {
+      let token = tokens[pos];
+      if (!token || (token.type !== "id" && token.type !== "num")) return fail();
+      pos++;
+      let p = token.text;
+      let g = f;
+      f = lookup => _getProperty(g(lookup), p);
+    }
+    return f;
+  };
+
+  const parsePrimary = (): Evaluator => {
+    let token = tokens[pos];
+    if (!token) return fail();
+    if (token.type === "num" || token.type === "str") {
+      pos++;
+      let value = token.value;
+      return () => value;
+    }
+    if (token.type === "id") {
+      pos++;
+      let name = token.text;
+      if (accept("(")) return parseCall(name);
+      if (Object.prototype.hasOwnProperty.call(LITERALS, name)) {
+        let value = LITERALS[name];
+        return () => value;
+      }
+      if (identifiers.indexOf(name) < 0) identifiers.push(name);
+      return lookup => lookup(name);
+    }
+    if (accept("(")) {
+      let f = parseConditional();
+      expect(")");
+      return f;
+    }
+    return fail();
+  };
+
+  const parseCall = (name: string): Evaluator => {
+    if (filters.indexOf(name) < 0) filters.push(name);
+    let args: Evaluator[] = [];
+    if (!accept(")")) {
+      do {
+        args.push(parseConditional());
+      } while (accept(","));
+      expect(")");
+    }
+    return lookup => {
+      let filter = getFilter(name);
+      if (!filter) throw err(ERROR.Format_Type, name);
+      let values = args.map(f => f(lookup));
+      return filter(values[0], ...values.slice(1));
+    };
+  };
+
+  let result = parseConditional();
+  if (pos < tokens.length) fail();
+  return { identifiers, filters, evaluate: result };
+}
+
+/** Returns a list of tokens for given expression */
+function _tokenize(source: string) {
+  let tokens: Array<{ type: "num" | "str" | "id" | "op"; text: string; value?: any }> = [];
+  let re = TOKEN;
+  let i = 0;
+  source = source.trim();
+  while (i < source.length) {
+    re.lastIndex = i;
+    let match = re.exec(source);
+    if (!match || match.index !== i) {
+      throw err(ERROR.Binding_Syntax, source + " (at " + JSON.stringify(source[i]) + ")");
+    }
+    i = re.lastIndex;
+    let [, num, str, id, op] = match;
+    if (num) tokens.push({ type: "num", text: num, value: +num });
+    else if (str) tokens.push({ type: "str", text: str, value: _unquote(str) });
+    else if (id) tokens.push({ type: "id", text: id });
+    else tokens.push({ type: "op", text: op });
+  }
+  return tokens;
+}
+
+/** Returns the value of given quoted string token */
+function _unquote(s: string) {
+  return s
+    .slice(1, -1)
+    .replace(/\\(.)/g, (_s, c) => (c === "n" ? "\n" : c === "t" ? "\t" : c));
+}
+
+/** Returns the value of given property on given object, using a `get` method if the object does not have the property itself (e.g. for `ManagedMap`) */
+function _getProperty(object: any, p: string) {
+  if (object == undefined) return undefined;
+  if (typeof object === "object" && !(p in object) && typeof object.get === "function") {
+    return object.get(p);
+  }
+  return object[p];
+}
@@ -1,5 +1,6 @@
 import { err, ERROR } from "../errors";
 import { HIDDEN } from "./util";
+import * as util from "./util";
 import { Binding } from "./Binding";
 import { ManagedEvent, ManagedParentChangeEvent, ManagedCoreEvent } from "./ManagedEvent";
 import { ManagedList } from "./ManagedList";
@@ -8,12 +9,19 @@ import { ManagedObject } from "./ManagedObject";
 import { onPropertyChange, observe } from "./observe";
 import { logUnhandledException } from "./UnhandledErrorEmitter";
 
-/** Event that is emitted on a particular `Component` instance, with reference to the source component as `source` */
+/**
+ * Event that is emitted on a particular `Component` instance, with reference to the source component as `source`.
+ * Component events are dispatched in a similar way to DOM events: before the event is emitted on the source component, capture handlers are invoked on all parent components from the root component down (see `Component.addEventCaptureHandler`); after the event has been emitted, it is propagated up to parent components that propagate child events (see `ManagedObject.propagateChildEvents`). Either phase can be ended using `stopPropagation`.
+ */
 export class ComponentEvent<TComponent extends Component = Component> extends ManagedEvent {
   constructor(name: string, source: TComponent, inner?: ManagedEvent) {
     super(name);
     this.source = source;
     this.inner = inner;
+    Object.defineProperty(this, "_dispatch", {
+      enumerable: false,
+      value: { phase: "none" },
+    });
   }
 
   /** Source component */
@@ -21,6 +29,49 @@ export class ComponentEvent<TComponent extends Component = Component> extends Ma
 
   /** Encapsulated event (i.e. propagated event if this event was emitted by `Component.propagateComponentEvent`) */
   inner?: ManagedEvent;
+
+  /** The current dispatch phase of this event (read only) */
+  get eventPhase() {
+    return this._dispatch.phase;
+  }
+
+  /** The component that is currently handling this event, during the capture and bubble phases (read only) */
+  get currentTarget() {
+    return this._dispatch.currentTarget;
+  }
+
+  /** True if `stopPropagation` has been called (read only) */
+  get propagationStopped() {
+    return !!this._dispatch.stopped;
+  }
+
+  /** True if `preventDefault` has been called (read only) */
+  get defaultPrevented() {
+    return !!this._dispatch.prevented;
+  }
+
+  /** Stop dispatching this event to further components: during the capture phase, the event is not emitted on the source component at all; after that, the event is not propagated to further parent components */
+  stopPropagation() {
+    this._dispatch.stopped = true;
+  }
+
+  /** Indicate that any default action for this event should not be performed; components can check `defaultPrevented` after emitting the event */
+  preventDefault() {
+    this._dispatch.prevented = true;
+  }
+
+  /** @internal Mutable dispatch state, since event instances are usually frozen */
+  _dispatch!: {
+    phase: ComponentEvent.Phase;
+    currentTarget?: Component;
+    stopped?: boolean;
+    prevented?: boolean;
+  };
+}
+
+export namespace ComponentEvent {
+  /** Dispatch phase of a component event: `none` before and after dispatching, `capture` while capture handlers on parent components are invoked, `target` while the event is emitted on the source component, and `bubble` while the event is propagated to parent components */
+  export type Phase = "none" | "capture" | "target" | "bubble";
 }
 
 /** Event handler type, can be used to define the type of a preset event handler as a string or function */
@@ -195,6 +246,7 @@ export class Component extends ManagedObject {
 
   /**
    * Add given binding to this component constructor, so that the property with given name *on all instances* will be updated with value(s) taken from the bound parent object. Optionally given function is used to set the property value using the updated (bound) value; otherwise, values are copied directly except for arrays, which are used to replace the values in a managed list (see `ManagedList.replace`).
+   * For two-way bindings (see `Binding.twoWay`), changes to the property with given name are also written back to the bound parent object.
    * @note This method is used by `preset` when the argument to `.with()` includes a binding (see `bind`). This method should not be used directly unless passing a binding to `.with()` is not possible.
    */
   static presetBinding<TComponent extends Component>(
@@ -218,6 +270,19 @@ export class Component extends ManagedObject {
       };
     }
     this.prototype[binding.id] = applyBoundValue;
+
+    // write changes back to the bound parent for two-way bindings
+    if (binding.isTwoWay) {
+      class TwoWayBindingObserver {
+        constructor(public readonly c: Component) {}
+        @onPropertyChange(propertyName)
+        updateBoundValue(v: any) {
+          let bound = this.c.getBoundBinding(binding);
+          if (bound && bound.includes(this.c)) bound.writeValue(v);
+        }
+      }
+      ((this as any) as typeof Component).addObserver(TwoWayBindingObserver);
+    }
   }
 
   /**
@@ -256,11 +321,103 @@ export class Component extends ManagedObject {
     return composition;
   }
 
+  /**
+   * Add a handler that is invoked for all component events that are emitted by child components (see `ComponentEvent`) _before_ the event is emitted on the source component itself, i.e. during the capture phase. Handlers are invoked on parent components from the root component down, and may stop the event from being dispatched further using `ComponentEvent.stopPropagation`.
+   * @note Capture handlers are added to the class, i.e. they apply to all instances of the class and derived classes (similar to `ManagedObject.addEventHandler`).
+   */
+  static addEventCaptureHandler<T extends Component>(
+    this: ComponentConstructor<T>,
+    handler: (this: T, e: ComponentEvent) => void
+  ) {
+    let proto: Component = this.prototype;
+
+    // get the previous prototype and handler on same prototype
+    let prevProto: Component | undefined;
+    let prevHandler: ((this: any, e: ComponentEvent) => void) | undefined;
+    if (!Object.prototype.hasOwnProperty.call(proto, HIDDEN.CAPTURE_HANDLER)) {
+      prevProto = Object.getPrototypeOf(proto);
+      Object.defineProperty(proto, HIDDEN.CAPTURE_HANDLER, {
+        enumerable: false,
+        configurable: false,
+        writable: true,
+      });
+    } else {
+      prevHandler = proto[HIDDEN.CAPTURE_HANDLER];
+    }
+
+    // add the capture handler function
+    proto[HIDDEN.CAPTURE_HANDLER] = function (this: any, e: ComponentEvent) {
+      prevProto && prevProto[HIDDEN.CAPTURE_HANDLER]
+        ? prevProto[HIDDEN.CAPTURE_HANDLER]!.call(this, e)
+        : prevHandler && prevHandler.call(this, e);
+      try {
+        handler.call(this, e);
+      } catch (err) {
+        util.exceptionHandler(err);
+      }
+    };
+    return this;
+  }
+
   /** Create a new component */
   constructor() {
     super();
   }
 
+  /**
+   * Emit an event (see `ManagedObject.emit`). Component events (see `ComponentEvent`) that originate from this component are dispatched to capture handlers on all parent components first, and are not emitted at all if propagation was stopped during the capture phase; component events from child components are not emitted if propagation was stopped.
+   */
+  emit<TEvent extends ManagedEvent = ManagedEvent, TConstructorArgs extends any[] = any[]>(
+    e: TEvent | (new (...args: TConstructorArgs) => TEvent) | string,
+    ...constructorArgs: TConstructorArgs
+  ) {
+    if (typeof e === "function") e = new e(...constructorArgs).freeze() as TEvent;
+    if (!(e instanceof ComponentEvent) || !e._dispatch) {
+      return super.emit(e as ManagedEvent | string);
+    }
+    let dispatch = e._dispatch;
+    if (e.source !== this || dispatch.phase !== "none") {
+      // propagated from a child component: bubble phase
+      if (dispatch.stopped) return this;
+      if (dispatch.phase === "none") return super.emit(e as ManagedEvent);
+      let prevTarget = dispatch.currentTarget;
+      let prevPhase = dispatch.phase;
+      dispatch.phase = "bubble";
+      dispatch.currentTarget = this;
+      try {
+        return super.emit(e as ManagedEvent);
+      } finally {
+        dispatch.phase = prevPhase;
+        dispatch.currentTarget = prevTarget;
+      }
+    }
+
+    // start a new dispatch from this component
+    if (!this.managedState) return super.emit(e as ManagedEvent);
+    dispatch.stopped = dispatch.prevented = false;
+    try {
+      let path: Component[] = [];
+      for (let p = this.getParentComponent(); p; p = p.getParentComponent()) {
+        path.unshift(p);
+      }
+      dispatch.phase = "capture";
+      for (let component of path) {
+        if (dispatch.stopped) break;
+        if (component[HIDDEN.CAPTURE_HANDLER]) {
+          dispatch.currentTarget = component;
+          component[HIDDEN.CAPTURE_HANDLER]!(e);
+        }
+      }
+      if (dispatch.stopped) return this;
+      dispatch.phase = "target";
+      dispatch.currentTarget = this;
+      return super.emit(e as ManagedEvent);
+    } finally {
+      dispatch.phase = "none";
+      dispatch.currentTarget = undefined;
+    }
+  }
+
   /** Returns true if the class that this instance has been created from was itself created using `Component.with` somewhere along the prototype chain. */
   protected isPresetComponent() {
     return false;
@@ -315,6 +472,9 @@ export class Component extends ManagedObject {
 
   /** @internal ComponentObserver for this instance, includes list of currently bound bindings (hidden property) */
   [HIDDEN.COMPONENT_OBSERVER_PROPERTY]: Component.ComponentObserver;
+
+  /** @internal Handler for component events during the capture phase (ONLY on prototype, see `addEventCaptureHandler`) */
+  [HIDDEN.CAPTURE_HANDLER]?: (e: ComponentEvent) => void;
 }
 
 // set default values for hidden properties
@@ -591,7 +751,11 @@ export namespace Component {
       if (!this._compositeBound) this._compositeBound = new ManagedMap();
       for (let b of bindings) {
         if (!this._compositeBound.has(b.id)) {
-          this._compositeBound.set(b.id, new Binding.Bound(b, this.component));
+          try {
+            this._compositeBound.set(b.id, new Binding.Bound(b, this.component));
+          } catch (err) {
+            logUnhandledException(err);
+          }
         }
       }
     }
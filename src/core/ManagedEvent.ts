@@ -74,18 +74,22 @@ export const CHANGE = new ManagedChangeEvent().freeze();
 
 /** Base type for events that are emitted when changes occur to a `ManagedList` or `ManagedMap` */
 export class ManagedListChangeEvent extends ManagedChangeEvent {
-  constructor(name = "ManagedListChange", source: ManagedList | ManagedMap) {
+  constructor(name = "ManagedListChange", source: ManagedList | ManagedMap<any, any>) {
     super(name);
     this.source = source;
   }
 
   /** The list or map that was changed */
-  readonly source: ManagedList | ManagedMap;
+  readonly source: ManagedList | ManagedMap<any, any>;
 }
 
 /** Event that is emitted when an item is added to a `ManagedList` or `ManagedMap`. The object contains a reference to the object that has been added to the list or map. */
 export class ManagedObjectAddedEvent extends ManagedListChangeEvent {
-  constructor(source: ManagedList | ManagedMap, object: ManagedObject, key?: string) {
+  constructor(
+    source: ManagedList | ManagedMap<any, any>,
+    object: ManagedObject,
+    key?: string
+  ) {
     super("ManagedObjectAdded", source);
     this.object = object;
     this.key = key;
@@ -100,7 +104,11 @@ export class ManagedObjectAddedEvent extends ManagedListChangeEvent {
 
 /** Event that is emitted when an item is removed from a `ManagedList`. The event object contains a reference to the object that has been removed from the list or map. */
 export class ManagedObjectRemovedEvent extends ManagedListChangeEvent {
-  constructor(source: ManagedList | ManagedMap, object: ManagedObject, key?: string) {
+  constructor(
+    source: ManagedList | ManagedMap<any, any>,
+    object: ManagedObject,
+    key?: string
+  ) {
     super("ManagedObjectRemoved", source);
     this.object = object;
     this.key = key;
@@ -112,3 +120,66 @@ export class ManagedObjectRemovedEvent extends ManagedListChangeEvent {
   /** The object that was removed */
   readonly object: ManagedObject;
 }
+
+/** Event that is emitted when the object that is mapped to a key of a `ManagedMap` changes, i.e. when an object is mapped to the key, or when the key is unset (including when the mapped object is removed from the map, or destroyed); this is _not_ a change event, since the map also emits a `ManagedObjectAddedEvent` or `ManagedObjectRemovedEvent` for the same change */
+export class ManagedMapKeyChangeEvent extends ManagedEvent {
+  constructor(source: ManagedMap<any, any>, key: string | number, object?: ManagedObject) {
+    super("ManagedMapKeyChange");
+    this.source = source;
+    this.key = key;
+    this.object = object;
+  }
+
+  /** The map that was changed */
+  readonly source: ManagedMap<any, any>;
+
+  /** The key that was changed */
+  readonly key: string | number;
+
+  /** The object that is now mapped to the key, if any */
+  readonly object?: ManagedObject;
+}
+
+/** Event that is emitted when a batch update on a `ManagedList` or `ManagedMap` has been completed (see `ManagedList.batch` and `ManagedMap.batch`), instead of separate events for each change. The event object contains a summary of all objects that have been added, removed, or moved within the list. */
+export class ManagedListBatchChangeEvent extends ManagedListChangeEvent {
+  constructor(
+    source: ManagedList | ManagedMap<any, any>,
+    added: ManagedObject[],
+    removed: ManagedObject[],
+    moved: ManagedObject[] = [],
+    keys?: string[]
+  ) {
+    super("ManagedListBatchChange", source);
+    this.added = added;
+    this.removed = removed;
+    this.moved = moved;
+    this.keys = keys;
+  }
+
+  /** The objects that were added */
+  readonly added: ReadonlyArray<ManagedObject>;
+
+  /** The objects that were removed */
+  readonly removed: ReadonlyArray<ManagedObject>;
+
+  /** The objects that remain in the list, but have been moved to another position (always empty for events emitted by `ManagedMap`) */
+  readonly moved: ReadonlyArray<ManagedObject>;
+
+  /** The keys that were added, removed, or mapped to another object, only for events emitted by `ManagedMap` */
+  readonly keys?: ReadonlyArray<string>;
+}
+
+/** Event that is emitted by a `ManagedWeakReference` when its target has been released, either because the target no longer has any (strong) managed references, was destroyed, or was garbage collected */
+export class ManagedReferenceReleasedEvent extends ManagedChangeEvent {
+  constructor(targetId: number, reason: "unreferenced" | "destroyed" | "collected") {
+    super("ManagedReferenceReleased");
+    this.targetId = targetId;
+    this.reason = reason;
+  }
+
+  /** The managed ID of the object that was released */
+  readonly targetId: number;
+
+  /** The reason for releasing the target object */
+  readonly reason: "unreferenced" | "destroyed" | "collected";
+}
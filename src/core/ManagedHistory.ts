@@ -0,0 +1,343 @@
+import { ManagedChangeEvent } from "./ManagedEvent";
+import { ManagedList } from "./ManagedList";
+import { ManagedMap } from "./ManagedMap";
+import { ManagedObject } from "./ManagedObject";
+import { ManagedRecord, ManagedRecordConstructor } from "./ManagedRecord";
+import { getChildEntries, getRecordValues, getShallowSnapshot } from "./observeDeep";
+import { HIDDEN } from "./util";
+import * as util from "./util";
+
+/** Prefix for property IDs of reference links from a history object to tracked objects */
+const TRACKED_PROP_ID_PREFIX = HIDDEN.PROPERTY_ID_PREFIX + "*hist:";
+
+/** Resolved promise used to group changes that occur synchronously */
+const RESOLVED = Promise.resolve();
+
+/**
+ * Represents the undo/redo history of a `ManagedRecord` instance, along with all of its child records, lists, and maps (see `@managedChild`).
+ * Changes are recorded whenever any of these objects emit a change event, or a new value is assigned to a managed property of a record (e.g. a property decorated with `@managed` or `@field`): property values of records are recorded when the record itself emits a change event (see `ManagedObject.emitChange`), and changes to lists and maps are recorded automatically. All changes that occur synchronously (or within the time given by `coalesceTime`) are combined into a single step.
+ * @note Only property values that are not managed child objects themselves are recorded; child objects that are destroyed (e.g. after being removed from a list that is a managed child object) are restored as _new_ records with the same property values, but without any nested child objects, using the `recreate` function.
+ */
+export class ManagedHistory<
+  TRoot extends ManagedRecord = ManagedRecord
+> extends ManagedObject {
+  /** Create a new history object for given root record */
+  constructor(root: TRoot, coalesceTime = 0) {
+    super();
+    this.root = root;
+    this.coalesceTime = coalesceTime;
+    this._scan();
+  }
+
+  /** The root record (read only) */
+  readonly root: TRoot;
+
+  /** Number of milliseconds after each change, during which further changes are combined into the same step; defaults to 0, which only combines changes that occur synchronously */
+  coalesceTime: number;
+
+  /**
+   * Function that is used to create a new record in place of a record that has been destroyed (e.g. after being removed from a list that is a managed child object), when undoing or redoing a change that refers to it. The function is called with the destroyed record and its last known property values, which are copied to the new record afterwards.
+   * By default, records are only re-created if their constructor does not declare any parameters; changes that refer to other destroyed records are skipped.
+   */
+  recreate: (
+    original: ManagedRecord,
+    values: { [p: string]: any }
+  ) => ManagedRecord | undefined = _recreateRecord;
+
+  /** True if there are any steps that can be undone */
+  get canUndo() {
+    return this._pos > 0;
+  }
+
+  /** True if there are any steps that can be redone */
+  get canRedo() {
+    return this._pos < this._steps.length;
+  }
+
+  /** Undo the last step, if any; returns true if a step was undone */
+  undo() {
+    if (!this.canUndo) return false;
+    this._step = undefined;
+    let step = this._steps[--this._pos];
+    this._apply(step.slice().reverse(), true);
+    return true;
+  }
+
+  /** Redo the last step that was undone, if any; returns true if a step was redone */
+  redo() {
+    if (!this.canRedo) return false;
+    this._step = undefined;
+    let step = this._steps[this._pos++];
+    this._apply(step, false);
+    return true;
+  }
+
+  /** End the current step, so that further changes are recorded as a new step. If a name is specified, the current position is stored as a named checkpoint, which can be restored using `undoTo` */
+  checkpoint(name?: string) {
+    this._step = undefined;
+    if (name !== undefined) {
+      this._checkpoints[name] = this._pos ? this._steps[this._pos - 1] : undefined;
+    }
+    return this;
+  }
+
+  /** Undo all steps up to the checkpoint with given name (see `checkpoint`); returns false if the checkpoint does not exist or is no longer part of the undo history */
+  undoTo(name: string) {
+    if (!(name in this._checkpoints)) return false;
+    let target = this._checkpoints[name];
+    let idx = target ? this._steps.indexOf(target) : -1;
+    if (target && (idx < 0 || idx >= this._pos)) return false;
+    while (this._pos > idx + 1) this.undo();
+    return true;
+  }
+
+  /** Remove all recorded steps and checkpoints */
+  clear() {
+    this._steps = [];
+    this._pos = 0;
+    this._step = undefined;
+    this._checkpoints = Object.create(null);
+    this._removed = Object.create(null);
+    this._replacements = Object.create(null);
+    this.emitChange();
+    return this;
+  }
+
+  /** Stop watching properties of all tracked records */
+  protected async onManagedStateDestroyingAsync() {
+    await super.onManagedStateDestroyingAsync();
+    for (let id in this._watchers) this._unwatch(+id);
+  }
+
+  /** Apply given entries, either reverting them or applying them again */
+  private _apply(entries: HistoryEntry[], revert: boolean) {
+    let changed: ManagedRecord[] = [];
+    this._applying = true;
+    try {
+      for (let entry of entries) {
+        let object = this._resolve(entry.object);
+        if (!object || !object.managedState) continue;
+        let value = revert ? entry.oldValue : entry.newValue;
+        if (object instanceof ManagedRecord) {
+          (object as any)[entry.p!] = value;
+          if (changed.indexOf(object) < 0) changed.push(object);
+        } else if (object instanceof ManagedList) {
+          object.replace(
+            (value as ManagedObject[]).map(o => this._resolve(o)!).filter(o => !!o)
+          );
+        } else if (object instanceof ManagedMap) {
+          let mapped: { [key: string]: ManagedObject } = value;
+          for (let key of object.keys()) {
+            if (!(key in mapped)) object.unset(key);
+          }
+          for (let key in mapped) {
+            let target = this._resolve(mapped[key]);
+            if (target) object.set(key, target);
+          }
+        }
+      }
+      changed.forEach(record => record.emitChange());
+    } finally {
+      this._applying = false;
+    }
+
+    // take new snapshots of all objects
+    let refs = this[HIDDEN.REF_PROPERTY];
+    for (let propId in refs) {
+      if (_isTrackedPropId(propId) && refs[propId]) {
+        let object: ManagedObject = refs[propId]!.b;
+        this._snapshots[object.managedId] = getShallowSnapshot(object, true);
+      }
+    }
+    this._scan();
+    this.emitChange();
+  }
+
+  /** Returns the current object for given (possibly destroyed) object, re-creating a record if needed (see `recreate`) */
+  private _resolve(object?: ManagedObject) {
+    while (object && this._replacements[object.managedId]) {
+      object = this._replacements[object.managedId];
+    }
+    if (object && !object.managedState && object instanceof ManagedRecord) {
+      let values = this._removed[object.managedId];
+      let copy = values && this.recreate(object, values);
+      if (!copy) return undefined;
+      for (let p in values) (copy as any)[p] = values[p];
+      this._replacements[object.managedId] = copy;
+      object = copy;
+    }
+    return object;
+  }
+
+  /** Handle a change event on given tracked object */
+  private _handleChange(object: ManagedObject) {
+    if (this._applying || !this.managedState) return;
+    let oldValues = this._snapshots[object.managedId];
+    let newValues = getShallowSnapshot(object, true);
+    this._snapshots[object.managedId] = newValues;
+    if (object instanceof ManagedRecord) {
+      this._watch(object);
+      let seen: { [p: string]: boolean } = Object.create(null);
+      for (let p of Object.keys(oldValues).concat(Object.keys(newValues))) {
+        if (seen[p] || oldValues[p] === newValues[p]) continue;
+        seen[p] = true;
+        this._addEntry({ object, p, oldValue: oldValues[p], newValue: newValues[p] });
+      }
+    } else if (!_isSameSnapshot(object, oldValues, newValues)) {
+      this._addEntry({ object, oldValue: oldValues, newValue: newValues });
+    }
+    this._scan();
+  }
+
+  /** Add given entry to the current step, or start a new step */
+  private _addEntry(entry: HistoryEntry) {
+    let now = Date.now();
+    if (!this._step || (!this._sync && now - this._lastT >= this.coalesceTime)) {
+      this._steps.splice(this._pos);
+      this._steps.push((this._step = []));
+      this._pos = this._steps.length;
+    }
+    this._lastT = now;
+    if (!this._sync) {
+      this._sync = true;
+      RESOLVED.then(() => {
+        this._sync = false;
+      });
+    }
+
+    // combine with an existing entry if possible
+    let existing = this._step.filter(e => e.object === entry.object && e.p === entry.p)[0];
+    if (existing) existing.newValue = entry.newValue;
+    else this._step.push(entry);
+    this.emitChange();
+  }
+
+  /** Find all objects that are part of the record graph, and start or stop tracking objects */
+  private _scan() {
+    let refs = this[HIDDEN.REF_PROPERTY];
+    let seen: boolean[] = Object.create(null);
+    const visit = (object: ManagedObject) => {
+      if (!object || !object.managedState || seen[object.managedId]) return;
+      seen[object.managedId] = true;
+      let propId = TRACKED_PROP_ID_PREFIX + object.managedId;
+      if (!refs[propId]) {
+        this._snapshots[object.managedId] = getShallowSnapshot(object, true);
+        ManagedObject._createRefLink(this, object, propId, e => {
+          if (e instanceof ManagedChangeEvent) this._handleChange(object);
+        });
+        if (object instanceof ManagedRecord) this._watch(object);
+      }
+      getChildEntries(object).forEach(child => visit(child.object));
+    };
+    if (this.managedState) visit(this.root);
+
+    // stop tracking objects that are no longer part of the graph
+    for (let propId in refs) {
+      if (_isTrackedPropId(propId) && refs[propId]) {
+        let object: ManagedObject = refs[propId]!.b;
+        if (!seen[object.managedId]) {
+          if (object instanceof ManagedRecord) {
+            this._removed[object.managedId] = this._snapshots[object.managedId];
+          }
+          delete this._snapshots[object.managedId];
+          ManagedObject._discardRefLink(refs[propId]);
+          this._unwatch(object.managedId);
+        }
+      }
+    }
+  }
+
+  /** Watch all managed properties of given record that are not watched yet (see `util.watchProperty`), to record new values as soon as they are assigned */
+  private _watch(record: ManagedRecord) {
+    let watchers =
+      this._watchers[record.managedId] ||
+      (this._watchers[record.managedId] = Object.create(null));
+    for (let p in getRecordValues(record)) {
+      if (!watchers[p]) {
+        watchers[p] = util.watchProperty(record, p, () => this._handleChange(record));
+      }
+    }
+  }
+
+  /** Stop watching properties of the record with given managed ID */
+  private _unwatch(managedId: number) {
+    let watchers = this._watchers[managedId];
+    for (let p in watchers) watchers[p]();
+    delete this._watchers[managedId];
+  }
+
+  /** All recorded steps */
+  private _steps: HistoryEntry[][] = [];
+
+  /** Number of steps that are currently applied */
+  private _pos = 0;
+
+  /** Current step, if changes can still be added to it */
+  private _step?: HistoryEntry[];
+
+  /** Time of the last recorded change */
+  private _lastT = 0;
+
+  /** True if a change has been recorded synchronously */
+  private _sync?: boolean;
+
+  /** True while applying changes */
+  private _applying?: boolean;
+
+  /** Named checkpoints */
+  private _checkpoints: { [name: string]: HistoryEntry[] | undefined } = Object.create(
+    null
+  );
+
+  /** Last known state of all tracked objects, by managed ID */
+  private _snapshots: { [managedId: number]: any } = Object.create(null);
+
+  /** Last known property values of records that are no longer tracked, by managed ID */
+  private _removed: { [managedId: number]: any } = Object.create(null);
+
+  /** New records that replace destroyed records, by managed ID */
+  private _replacements: { [managedId: number]: ManagedRecord } = Object.create(null);
+
+  /** Functions to stop watching properties of tracked records, by managed ID and property name */
+  private _watchers: {
+    [managedId: number]: { [p: string]: () => void };
+  } = Object.create(null);
+}
+
+/** Represents a single change to a tracked object */
+interface HistoryEntry {
+  /** The tracked object */
+  object: ManagedObject;
+
+  /** The property that was changed, for records */
+  p?: string;
+
+  /** The old value or snapshot */
+  oldValue: any;
+
+  /** The new value or snapshot */
+  newValue: any;
+}
+
+/** Returns true if given property ID refers to a tracked object */
+function _isTrackedPropId(propId: string) {
+  return propId.slice(0, TRACKED_PROP_ID_PREFIX.length) === TRACKED_PROP_ID_PREFIX;
+}
+
+/** Default function to re-create given destroyed record, only if its constructor does not declare any parameters */
+function _recreateRecord(original: ManagedRecord) {
+  let C = original.constructor as ManagedRecordConstructor;
+  return C.length ? undefined : new (C as new () => ManagedRecord)();
+}
+
+/** Returns true if given snapshots of a list or map are the same */
+function _isSameSnapshot(object: ManagedObject, a: any, b: any) {
+  if (object instanceof ManagedList) {
+    return a.length === b.length && a.every((o: any, i: number) => o === b[i]);
+  }
+  if (object instanceof ManagedMap) {
+    let keysA = Object.keys(a);
+    return keysA.length === Object.keys(b).length && keysA.every(k => a[k] === b[k]);
+  }
+  return true;
+}
@@ -0,0 +1,283 @@
+import { ManagedObject, ManagedState } from "./ManagedObject";
+import * as util from "./util";
+import { HIDDEN } from "./util";
+
+/** Entry for a single live managed object, see `ManagedInspector` */
+interface LiveEntry {
+  object: ManagedObject;
+  className: string;
+  created: number;
+  changed: number;
+}
+
+/** All live managed objects, by managed ID (only while enabled) */
+let _live: { [managedId: number]: LiveEntry } = Object.create(null);
+
+/** Time at which the inspector was enabled, or statistics were reset */
+let _since = 0;
+
+/** Number of objects created and destroyed since `_since` */
+let _nCreated = 0;
+let _nDestroyed = 0;
+
+/** Timer used for periodic reports, if any */
+let _timer: any;
+
+/**
+ * Development tool that keeps track of all live managed objects (i.e. objects that have not been destroyed yet), to find objects that are kept alive unintentionally. Use `ManagedInspector.enable` to start tracking objects that are created from then on.
+ * @note While enabled, the inspector holds on to all live objects itself, which means that they are never garbage collected; the inspector should therefore only be enabled during development.
+ */
+export class ManagedInspector {
+  /** True if the inspector is currently tracking managed objects (read only) */
+  static get enabled() {
+    return util.lifecycleHandler === _handleLifecycle;
+  }
+
+  /**
+   * Start tracking all managed objects that are created from now on, and reset statistics.
+   * If a report interval is specified, a warning is logged to the console periodically for objects that have not been active or destroyed within given inactive threshold (in milliseconds, defaults to 10s).
+   */
+  static enable(options: ManagedInspector.Options = {}) {
+    ManagedInspector.disable();
+    util.setLifecycleHandler(_handleLifecycle);
+    ManagedInspector.resetStats();
+    if (options.reportInterval! > 0) {
+      let threshold = options.inactiveThreshold || 10000;
+      _timer = setInterval(() => {
+        let inactive = ManagedInspector.getInactive(threshold);
+        if (inactive.length && console.warn) {
+          console.warn("[Inspector] Inactive managed object(s):", inactive);
+        }
+      }, options.reportInterval);
+    }
+  }
+
+  /** Stop tracking managed objects, and forget about all objects that are currently tracked */
+  static disable() {
+    if (_timer) clearInterval(_timer);
+    _timer = undefined;
+    if (ManagedInspector.enabled) util.setLifecycleHandler(undefined);
+    _live = Object.create(null);
+  }
+
+  /** Reset counters for created and destroyed objects (see `getStats`) */
+  static resetStats() {
+    _since = Date.now();
+    _nCreated = _nDestroyed = 0;
+  }
+
+  /** Returns all live managed objects that are currently tracked, optionally only those with given class name */
+  static getLiveObjects(className?: string) {
+    let result: ManagedObject[] = [];
+    for (let id in _live) {
+      let entry = _live[id];
+      if (className === undefined || entry.className === className) {
+        result.push(entry.object);
+      }
+    }
+    return result;
+  }
+
+  /** Returns statistics about all tracked objects, including counts per class and creation and destruction rates (per second) */
+  static getStats(): ManagedInspector.Stats {
+    let byClass: { [className: string]: number } = Object.create(null);
+    let live = 0;
+    for (let id in _live) {
+      let className = _live[id].className;
+      byClass[className] = (byClass[className] || 0) + 1;
+      live++;
+    }
+    let seconds = Math.max(Date.now() - _since, 1) / 1000;
+    return {
+      live,
+      byClass,
+      created: _nCreated,
+      destroyed: _nDestroyed,
+      creationRate: _nCreated / seconds,
+      destructionRate: _nDestroyed / seconds,
+    };
+  }
+
+  /** Returns information about tracked objects that are not active (i.e. created or deactivated, but not destroyed) and have not changed state for at least given number of milliseconds */
+  static getInactive(threshold: number) {
+    let result: ManagedInspector.ObjectInfo[] = [];
+    let now = Date.now();
+    for (let id in _live) {
+      let entry = _live[id];
+      let state = entry.object.managedState;
+      if (
+        (state === ManagedState.CREATED || state === ManagedState.INACTIVE) &&
+        now - entry.changed >= threshold
+      ) {
+        result.push(_getInfo(entry.object));
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Returns a description of all managed references from and to the object with given managed ID, as well as (recursively) the objects that refer to it and that are referenced by it, up to given depth. This can be used to find out which references keep an object alive.
+   * @returns A list of objects, the first one being the object with given ID; or an empty list if the object is not currently tracked
+   */
+  static getReferenceGraph(managedId: number, depth = 1) {
+    let result: ManagedInspector.ObjectInfo[] = [];
+    let entry = _live[managedId];
+    if (!entry) return result;
+    let seen: boolean[] = Object.create(null);
+    let queue: Array<{ object: ManagedObject; depth: number }> = [
+      { object: entry.object, depth: 0 },
+    ];
+    while (queue.length) {
+      let { object, depth: d } = queue.shift()!;
+      if (seen[object.managedId]) continue;
+      seen[object.managedId] = true;
+      let info = _getInfo(object, true);
+      result.push(info);
+      if (d < depth) {
+        info.references!.forEach(r => queue.push({ object: r.object, depth: d + 1 }));
+        info.referrers!.forEach(r => queue.push({ object: r.object, depth: d + 1 }));
+      }
+    }
+    return result;
+  }
+}
+
+export namespace ManagedInspector {
+  /** Options for `ManagedInspector.enable` */
+  export interface Options {
+    /** Number of milliseconds after which objects that are not active are reported, defaults to 10s */
+    inactiveThreshold?: number;
+
+    /** Number of milliseconds between reports of inactive objects that are logged to the console, if any */
+    reportInterval?: number;
+  }
+
+  /** Statistics about managed objects, see `ManagedInspector.getStats` */
+  export interface Stats {
+    /** Total number of live objects */
+    live: number;
+
+    /** Number of live objects, by class name */
+    byClass: { [className: string]: number };
+
+    /** Number of objects created since the inspector was enabled, or statistics were reset */
+    created: number;
+
+    /** Number of objects destroyed since the inspector was enabled, or statistics were reset */
+    destroyed: number;
+
+    /** Average number of objects created per second */
+    creationRate: number;
+
+    /** Average number of objects destroyed per second */
+    destructionRate: number;
+  }
+
+  /** Information about a single managed object */
+  export interface ObjectInfo {
+    /** The object itself */
+    object: ManagedObject;
+
+    /** The object's managed ID */
+    managedId: number;
+
+    /** Name of the object's class */
+    className: string;
+
+    /** Current managed state */
+    state: ManagedState;
+
+    /** Number of managed references to this object */
+    referenceCount: number;
+
+    /** Time (in milliseconds) since the object was created, if tracked */
+    age?: number;
+
+    /** Managed references from this object to other objects, only for results of `ManagedInspector.getReferenceGraph` */
+    references?: ReferenceInfo[];
+
+    /** Managed references from other objects to this object, only for results of `ManagedInspector.getReferenceGraph` */
+    referrers?: ReferenceInfo[];
+  }
+
+  /** Information about a single managed reference */
+  export interface ReferenceInfo {
+    /** The referenced or referring object */
+    object: ManagedObject;
+
+    /** The managed ID of the referenced or referring object */
+    managedId: number;
+
+    /** Name of the class of the referenced or referring object */
+    className: string;
+
+    /** Description of the reference, i.e. the property name for managed reference properties, a map key prefixed with `%`, or an internal property ID */
+    key: string;
+
+    /** True if this is a managed parent-child reference */
+    child: boolean;
+  }
+}
+
+/** Handle creation and state changes of managed objects, while enabled */
+function _handleLifecycle(object: ManagedObject, state: ManagedState) {
+  let id = object.managedId;
+  if (state === ManagedState.CREATED) {
+    let now = Date.now();
+    _live[id] = { object, className: _getClassName(object), created: now, changed: now };
+    _nCreated++;
+  } else if (state === ManagedState.DESTROYED) {
+    if (_live[id]) {
+      delete _live[id];
+      _nDestroyed++;
+    }
+  } else if (_live[id]) {
+    _live[id].changed = Date.now();
+  }
+}
+
+/** Returns information about given object, optionally including all references */
+function _getInfo(object: ManagedObject, withRefs?: boolean) {
+  let entry = _live[object.managedId];
+  let info: ManagedInspector.ObjectInfo = {
+    object,
+    managedId: object.managedId,
+    className: _getClassName(object),
+    state: object.managedState,
+    referenceCount: object[HIDDEN.REFCOUNT_PROPERTY],
+    age: entry ? Date.now() - entry.created : undefined,
+  };
+  if (withRefs) {
+    let refs = object[HIDDEN.REF_PROPERTY];
+    info.references = [];
+    for (let propId in refs) {
+      let ref = refs[propId];
+      if (ref && ref.a === object && propId === ref.p) {
+        info.references.push(_getReferenceInfo(ref, ref.b));
+      }
+    }
+    info.referrers = [];
+    refs.forEach(ref => {
+      if (ref && ref.a) info.referrers!.push(_getReferenceInfo(ref, ref.a));
+    });
+  }
+  return info;
+}
+
+/** Returns information about given reference link, from the point of view of given object */
+function _getReferenceInfo(ref: util.RefLink, object: ManagedObject) {
+  let key = util.refPropertyNames[ref.p] || ref.p;
+  let parentRef = (ref.b as ManagedObject)[HIDDEN.REF_PROPERTY].parent;
+  return {
+    object,
+    managedId: object.managedId,
+    className: _getClassName(object),
+    key,
+    child: parentRef === ref,
+  };
+}
+
+/** Returns the class name of given object */
+function _getClassName(object: ManagedObject) {
+  return (object.constructor && (object.constructor as any).name) || "ManagedObject";
+}
@@ -1,6 +1,8 @@
 import { err, ERROR } from "../errors";
 import {
+  ManagedChangeEvent,
   ManagedEvent,
+  ManagedListBatchChangeEvent,
   ManagedListChangeEvent,
   ManagedObjectAddedEvent,
   ManagedObjectRemovedEvent,
@@ -10,6 +12,15 @@ import { shadowObservable } from "./observe";
 import * as util from "./util";
 import { HIDDEN } from "./util";
 
+/** Property ID for the reference link from a list view or index to its source list */
+const SOURCE_PROP_ID = HIDDEN.PROPERTY_ID_PREFIX + "*src";
+
+/** Prefix for property IDs of reference links from a list view to objects in its source list that are not included in the view itself */
+const VIEW_OBJECT_PROP_ID_PREFIX = HIDDEN.PROPERTY_ID_PREFIX + "*obj:";
+
+/** Prefix for property IDs of reference links from a list index to objects in its source list */
+const INDEX_OBJECT_PROP_ID_PREFIX = HIDDEN.PROPERTY_ID_PREFIX + "*idx:";
+
 // really simple shim for Symbol.iterator in older browsers, only good for ManagedList below
 if (typeof Symbol !== "function") {
   if (typeof window === "object") {
@@ -126,6 +137,7 @@ export class ManagedList<T extends ManagedObject = ManagedObject> extends Manage
       target,
       propId,
       e => {
+        if (this._handleObjectEvent) this._handleObjectEvent(e, target);
         if (this[HIDDEN.NONCHILD_EVENT_HANDLER]) {
           this[HIDDEN.NONCHILD_EVENT_HANDLER]!(e, "");
         } else if (
@@ -182,7 +194,7 @@ export class ManagedList<T extends ManagedObject = ManagedObject> extends Manage
       target instanceof ManagedObject &&
       this[HIDDEN.REF_PROPERTY][HIDDEN.MANAGED_LIST_REF_PREFIX + target.managedId];
     if (ref && ref.b === target) {
-      if (ManagedObject._discardRefLink(ref)) {
+      if (ManagedObject._discardRefLink(ref, this._batch && this._batch.detached)) {
         this["^count"]--;
         if (this.managedState) {
           this.emit(ManagedObjectRemovedEvent, this, target);
@@ -221,7 +233,7 @@ export class ManagedList<T extends ManagedObject = ManagedObject> extends Manage
       let next = ref && ref.k && ref.k.b;
       if (ref && ref.b === target) {
         result.push(target);
-        if (ManagedObject._discardRefLink(ref)) {
+        if (ManagedObject._discardRefLink(ref, this._batch && this._batch.detached)) {
           this["^count"]--;
           this.emit(ManagedObjectRemovedEvent, this, target);
         }
@@ -313,6 +325,72 @@ export class ManagedList<T extends ManagedObject = ManagedObject> extends Manage
     return this;
   }
 
+  /**
+   * Run given callback as a batch update: change events that are emitted by this list while the callback runs are combined into a single `ManagedListBatchChangeEvent`, which is emitted afterwards (only if the list was actually changed).
+   * If the callback throws an error, all changes are rolled back and the error is rethrown.
+   * @note Child objects that are removed from the list (i.e. if the list itself is a managed child object) are only destroyed when the batch update ends, and only if they have not been added to the list again or rolled back. Objects that have been destroyed explicitly cannot be restored when rolling back changes.
+   */
+  batch(callback: (list: this) => void) {
+    this.beginUpdate();
+    try {
+      callback(this);
+    } catch (err) {
+      if (this.managedState) {
+        this.replace(this._batch!.objects.filter(o => !!o.managedState));
+      }
+      this.endUpdate();
+      throw err;
+    }
+    this.endUpdate();
+    return this;
+  }
+
+  /**
+   * Start a batch update: change events are no longer emitted by this list, until `endUpdate` is called. Calls to `beginUpdate` and `endUpdate` may be nested; only the last call to `endUpdate` ends the batch update. See also `batch`.
+   */
+  beginUpdate() {
+    if (this._batch) this._batch.n++;
+    else this._batch = { n: 1, objects: this.toArray(), detached: [] };
+    return this;
+  }
+
+  /**
+   * End a batch update that was started using `beginUpdate`. If this ends the (outermost) batch update, and the list has been changed, a single `ManagedListBatchChangeEvent` is emitted with a summary of all changes.
+   */
+  endUpdate() {
+    let batch = this._batch;
+    if (!batch || --batch.n > 0) return this;
+    this._batch = undefined;
+    ManagedObject._destroyDetachedChildren(batch.detached);
+
+    // find out which objects were added, removed, or moved
+    let objects = this.toArray();
+    let oldIndex: number[] = Object.create(null);
+    let newIndex: number[] = Object.create(null);
+    batch.objects.forEach((o, i) => (oldIndex[o.managedId] = i));
+    objects.forEach((o, i) => (newIndex[o.managedId] = i));
+    let added = objects.filter(o => !(o.managedId in oldIndex));
+    let removed = batch.objects.filter(o => !(o.managedId in newIndex));
+    let oldCommon = batch.objects.filter(o => o.managedId in newIndex);
+    let newCommon = objects.filter(o => o.managedId in oldIndex);
+    let moved = newCommon.filter((o, i) => oldCommon[i] !== o);
+    if (this.managedState && (added.length || removed.length || moved.length)) {
+      this.emit(ManagedListBatchChangeEvent, this, added, removed, moved);
+    }
+    return this;
+  }
+
+  /** Emit given event, unless a batch update is currently in progress and the event is a change event for this list itself (see `beginUpdate`) */
+  emit<TEvent extends ManagedEvent = ManagedEvent, TConstructorArgs extends any[] = any[]>(
+    e: TEvent | (new (...args: TConstructorArgs) => TEvent) | string,
+    ...constructorArgs: TConstructorArgs
+  ): this {
+    if (this._batch && typeof e === "function") e = new e(...constructorArgs).freeze();
+    if (this._batch && e instanceof ManagedListChangeEvent && e.source === this)
+      return this;
+    return super.emit(e, ...constructorArgs);
+  }
+
   /** Returns true if given object is currently included in this list */
   includes(target: T) {
     let managedId = target && target.managedId;
@@ -475,6 +553,52 @@ export class ManagedList<T extends ManagedObject = ManagedObject> extends Manage
     return result;
   }
 
+  /**
+   * Returns a new list that contains the objects in this list, sorted using given function. The resulting list is updated automatically when objects are added to, removed from, or moved within this list, and whenever an object in this list emits a change event (see `ManagedObject.emitChange`).
+   * @param compareFn
+   *  the function used to determine the order of objects, in the same way as `Array.sort`
+   * @note The resulting list should not be modified directly, since all objects are replaced when the list is updated. Destroy the list object to stop updating.
+   */
+  sorted(compareFn: (a: T, b: T) => number) {
+    return new ManagedList.View<T>(this, undefined, compareFn);
+  }
+
+  /**
+   * Returns a new list that contains only those objects in this list for which given function returns a truthy value. The resulting list is updated automatically when objects are added to, removed from, or moved within this list, and whenever an object in this list emits a change event (see `ManagedObject.emitChange`).
+   * @param predicate
+   *  the function used to determine which objects to include
+   * @note The resulting list should not be modified directly, since all objects are replaced when the list is updated. Destroy the list object to stop updating.
+   */
+  filtered(predicate: (target: T) => any) {
+    return new ManagedList.View<T>(this, predicate);
+  }
+
+  /**
+   * Returns a new index for the objects in this list, which can be used to look up objects by key. The key for each object is either the value of given property, or the result of given function.
+   * The index is updated automatically when objects are added to or removed from this list, and whenever an object in this list emits a change event (see `ManagedObject.emitChange`).
+   * @note Destroy the index object to stop updating.
+   */
+  createIndex<K extends keyof T>(key: K): ManagedList.Index<T, T[K]>;
+  /**
+   * Returns a new index for the objects in this list, which can be used to look up objects by key. The key for each object is either the value of given property, or the result of given function.
+   * The index is updated automatically when objects are added to or removed from this list, and whenever an object in this list emits a change event (see `ManagedObject.emitChange`).
+   * @note Destroy the index object to stop updating.
+   */
+  createIndex<TKey>(keyFn: (target: T) => TKey): ManagedList.Index<T, TKey>;
+  createIndex(keyOrFn: any) {
+    return new ManagedList.Index<T, any>(this, keyOrFn);
+  }
+
+  /**
+   * Returns an asynchronous iterable stream of change events that are emitted on this list, i.e. instances of `ManagedListChangeEvent` or given event class(es), e.g. `for await (let e of list.changes(ManagedObjectAddedEvent)) ...`.
+   * The stream ends when the iterator is returned, or when this list is destroyed (see `ManagedObject.events`).
+   */
+  changes<TEvent extends ManagedListChangeEvent = ManagedListChangeEvent>(
+    ...types: Array<new (...args: any[]) => TEvent>
+  ) {
+    return this.events<TEvent>(...(types.length ? types : [ManagedListChangeEvent as any]));
+  }
+
   /**
    * Iterator symbol property to use managed list with 'for...of' statement
    * @note The behavior of the iterator is undefined if objects are inserted immediately after the current object, or if objects beyond the current object are removed. Removing the _current_ object or any previous objects during the iteration is safe and will not disrupt the control flow.
@@ -526,5 +650,299 @@ export class ManagedList<T extends ManagedObject = ManagedObject> extends Manage
   /** @internal */
   private [HIDDEN.NONCHILD_EVENT_HANDLER]: (e: ManagedEvent, name: string) => void;
 
+  /** Handler for events that are emitted by objects in this list, if any (used by list views) */
+  protected _handleObjectEvent?(e: ManagedEvent, target: T): void;
+
   private _isWeakRef?: boolean;
+
+  /** Current batch update, if any (see `beginUpdate`), including child objects that should be destroyed afterwards */
+  private _batch?: { n: number; objects: T[]; detached: ManagedObject[] };
+}
+
+export namespace ManagedList {
+  /** A managed list that contains a live (filtered and/or sorted) view of the objects in another list; see `ManagedList.sorted` and `ManagedList.filtered` */
+  export class View<T extends ManagedObject = ManagedObject> extends ManagedList<T> {
+    /** Create a new view of given list, using given filter and/or compare functions */
+    constructor(
+      source: ManagedList<T>,
+      predicate?: (target: T) => any,
+      compareFn?: (a: T, b: T) => number
+    ) {
+      super();
+      this.weakRef();
+      this._predicate = predicate;
+      this._compareFn = compareFn;
+      this.source = source;
+
+      // update this list when the source list changes or is destroyed
+      ManagedObject._createRefLink(
+        this,
+        source,
+        SOURCE_PROP_ID,
+        e => {
+          if (e instanceof ManagedListChangeEvent && e.source === source) {
+            this.refresh();
+          }
+        },
+        () => {
+          if (this.managedState) this.refresh();
+        }
+      );
+      this.refresh();
+    }
+
+    /** The source list (read only) */
+    readonly source: ManagedList<T>;
+
+    /**
+     * Update the objects in this list, using the current objects in the source list.
+     * @note This method is called automatically when the source list changes, or an object in the source list emits a change event; it only needs to be called directly if properties of objects in the source list are changed without emitting a change event.
+     */
+    refresh() {
+      if (!this.managedState) return this;
+      let objects = this.source.toArray();
+
+      // filter and sort all objects, and replace list contents
+      let included = objects;
+      if (this._predicate) included = included.filter(this._predicate);
+      if (this._compareFn) included = _stableSort(included, this._compareFn);
+      this.replace(included);
+
+      // keep track of source objects that are not included, to handle their change events
+      let refs = this[HIDDEN.REF_PROPERTY];
+      let excluded: boolean[] = Object.create(null);
+      for (let object of objects) {
+        if (this.includes(object)) continue;
+        excluded[object.managedId] = true;
+        this._watch(object);
+      }
+      for (let propId in refs) {
+        let ref = refs[propId];
+        if (
+          ref &&
+          propId.slice(0, VIEW_OBJECT_PROP_ID_PREFIX.length) ===
+            VIEW_OBJECT_PROP_ID_PREFIX &&
+          !excluded[ref.b.managedId]
+        ) {
+          ManagedObject._discardRefLink(ref);
+        }
+      }
+      return this;
+    }
+
+    /** Handle a change event on given object in this view */
+    protected _handleObjectEvent(e: ManagedEvent, target: T) {
+      if (e instanceof ManagedChangeEvent && !(e instanceof ManagedListChangeEvent)) {
+        this._update(target);
+      }
+    }
+
+    /** Add, remove, or move given source object within this view, after it has changed */
+    private _update(object: T) {
+      if (!this.managedState || !this.source.includes(object)) return;
+      let include = !this._predicate || this._predicate(object);
+      if (!include) {
+        if (this.includes(object)) {
+          this.remove(object);
+          this._watch(object);
+        }
+        return;
+      }
+
+      // find out where the object should be (if it is not in the right place already)
+      let before: T | undefined;
+      if (this._compareFn) {
+        let compareFn = this._compareFn;
+        let sourceIndex: number[] | undefined;
+        const compare = (a: T, b: T) => {
+          let result = compareFn(a, b);
+          if (result || a === b) return result;
+          if (!sourceIndex) {
+            sourceIndex = Object.create(null);
+            this.source.toArray().forEach((o, i) => (sourceIndex![o.managedId] = i));
+          }
+          return sourceIndex![a.managedId] - sourceIndex![b.managedId];
+        };
+        let ref = this[HIDDEN.REF_PROPERTY][
+          HIDDEN.MANAGED_LIST_REF_PREFIX + object.managedId
+        ];
+        if (
+          ref &&
+          (!ref.j || compare(ref.j.b, object) < 0) &&
+          (!ref.k || compare(object, ref.k.b) < 0)
+        ) {
+          return;
+        }
+        let objects = this.toArray().filter(o => o !== object);
+        let lo = 0;
+        let hi = objects.length;
+        while (lo < hi) {
+          let mid = (lo + hi) >> 1;
+          if (compare(objects[mid], object) < 0) lo = mid + 1;
+          else hi = mid;
+        }
+        before = objects[lo];
+      } else {
+        if (this.includes(object)) return;
+        let found: boolean | undefined;
+        for (let o of this.source) {
+          if (found && this.includes(o)) {
+            before = o;
+            break;
+          }
+          if (o === object) found = true;
+        }
+      }
+
+      // move the object, or insert it instead of watching it separately
+      let propId = VIEW_OBJECT_PROP_ID_PREFIX + object.managedId;
+      ManagedObject._discardRefLink(this[HIDDEN.REF_PROPERTY][propId]);
+      if (this.includes(object)) this.remove(object);
+      this.insert(object, before);
+    }
+
+    /** Start handling change events of given source object that is not included in this view */
+    private _watch(object: T) {
+      let refs = this[HIDDEN.REF_PROPERTY];
+      let propId = VIEW_OBJECT_PROP_ID_PREFIX + object.managedId;
+      if (!refs[propId] || refs[propId]!.b !== object) {
+        ManagedObject._createRefLink(this, object, propId, e => {
+          if (e instanceof ManagedChangeEvent && !(e instanceof ManagedListChangeEvent)) {
+            this._update(object);
+          }
+        });
+      }
+    }
+
+    private _predicate?: (target: any) => any;
+    private _compareFn?: (a: any, b: any) => number;
+  }
+
+  /** An index for the objects in a managed list, which can be used to look up objects by key; see `ManagedList.createIndex` */
+  export class Index<
+    T extends ManagedObject = ManagedObject,
+    TKey = any
+  > extends ManagedObject {
+    /** Create a new index for given list, using given property name or key function */
+    constructor(source: ManagedList<T>, keyOrFn: keyof T | ((target: T) => TKey)) {
+      super();
+      this.source = source;
+      this._keyFn =
+        typeof keyOrFn === "function" ? keyOrFn : (target: T) => target[keyOrFn] as any;
+
+      // update this index when objects are added or removed
+      ManagedObject._createRefLink(
+        this,
+        source,
+        SOURCE_PROP_ID,
+        e => {
+          if (!(e instanceof ManagedListChangeEvent) || e.source !== source) return;
+          if (e instanceof ManagedObjectAddedEvent) {
+            this._add(e.object as T);
+          } else if (e instanceof ManagedObjectRemovedEvent) {
+            this._remove(e.object as T);
+          } else if (e instanceof ManagedListBatchChangeEvent) {
+            e.removed.forEach(object => this._remove(object as T));
+            e.added.forEach(object => this._add(object as T));
+          }
+        },
+        () => {
+          if (this.managedState) this.refresh();
+        }
+      );
+      this.refresh();
+    }
+
+    /** The source list (read only) */
+    readonly source: ManagedList<T>;
+
+    /** Returns the first indexed object with given key, if any */
+    get(key: TKey): T | undefined {
+      let objects = this._objects[String(key)];
+      return objects && objects[0];
+    }
+
+    /** Returns an array of all indexed objects with given key, in the order in which they were indexed */
+    getAll(key: TKey): T[] {
+      let objects = this._objects[String(key)];
+      return objects ? objects.slice() : [];
+    }
+
+    /** Returns true if at least one object is indexed with given key */
+    has(key: TKey) {
+      return !!this._objects[String(key)];
+    }
+
+    /**
+     * Rebuild this index, using the current objects in the source list.
+     * @note The index is updated automatically when the source list changes, or an object in the source list emits a change event; this method only needs to be called directly if keyed properties of objects in the source list are changed without emitting a change event.
+     */
+    refresh() {
+      let objects = this.managedState ? this.source.toArray() : [];
+      let refs = this[HIDDEN.REF_PROPERTY];
+      for (let propId in refs) {
+        if (
+          propId.slice(0, INDEX_OBJECT_PROP_ID_PREFIX.length) ===
+          INDEX_OBJECT_PROP_ID_PREFIX
+        ) {
+          ManagedObject._discardRefLink(refs[propId]);
+        }
+      }
+      this._objects = Object.create(null);
+      this._keys = Object.create(null);
+      objects.forEach(object => this._add(object));
+      return this;
+    }
+
+    /** Add given object to the index */
+    private _add(object: T) {
+      let propId = INDEX_OBJECT_PROP_ID_PREFIX + object.managedId;
+      if (!this[HIDDEN.REF_PROPERTY][propId]) {
+        ManagedObject._createRefLink(this, object, propId, e => {
+          if (e instanceof ManagedChangeEvent && !(e instanceof ManagedListChangeEvent)) {
+            // update key for this object if needed
+            let key = this._keyFn(object);
+            if (
+              this._keys[object.managedId] !== (key == undefined ? undefined : String(key))
+            ) {
+              this._remove(object, true);
+              this._add(object);
+            }
+          }
+        });
+      }
+      let key = this._keyFn(object);
+      if (key == undefined) return;
+      let s = (this._keys[object.managedId] = String(key));
+      (this._objects[s] || (this._objects[s] = [])).push(object);
+    }
+
+    /** Remove given object from the index, and stop handling its events unless `keepRef` is true */
+    private _remove(object: T, keepRef?: boolean) {
+      if (!keepRef) {
+        let propId = INDEX_OBJECT_PROP_ID_PREFIX + object.managedId;
+        ManagedObject._discardRefLink(this[HIDDEN.REF_PROPERTY][propId]);
+      }
+      let s = this._keys[object.managedId];
+      delete this._keys[object.managedId];
+      let objects = s !== undefined && this._objects[s];
+      if (objects) {
+        let i = objects.indexOf(object);
+        if (i >= 0) objects.splice(i, 1);
+        if (!objects.length) delete this._objects[s!];
+      }
+    }
+
+    private _keyFn: (target: any) => any;
+    private _objects: { [key: string]: T[] } = Object.create(null);
+    private _keys: { [managedId: number]: string | undefined } = Object.create(null);
+  }
+}
+
+/** Helper function to sort given array while keeping the original order of equal elements */
+function _stableSort<T>(objects: T[], compareFn: (a: T, b: T) => number) {
+  return objects
+    .map((object, i) => ({ object, i }))
+    .sort((a, b) => compareFn(a.object, b.object) || a.i - b.i)
+    .map(entry => entry.object);
 }
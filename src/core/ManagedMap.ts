@@ -1,14 +1,25 @@
 import { err, ERROR } from "../errors";
 import {
   ManagedEvent,
+  ManagedListBatchChangeEvent,
+  ManagedListChangeEvent,
+  ManagedMapKeyChangeEvent,
   ManagedObjectAddedEvent,
   ManagedObjectRemovedEvent,
 } from "./ManagedEvent";
 import { ManagedObject, ManagedObjectConstructor } from "./ManagedObject";
+import { shadowObservable } from "./observe";
 import { HIDDEN } from "./util";
 
-/** Represents an _unordered_ list of managed objects that are indexed using unique key strings */
-export class ManagedMap<T extends ManagedObject = ManagedObject> extends ManagedObject {
+/**
+ * Represents a list of managed objects that are indexed using unique keys, i.e. strings or numbers (keys are compared as strings, but returned with their original type by methods such as `keys`).
+ * Keys are iterated in insertion order, in the same way as a native `Map`: mapping a new object to an existing key does not change its position, but removing a key and setting it again moves it to the end.
+ * A `ManagedMapKeyChangeEvent` is emitted whenever the object that is mapped to a key changes, in addition to `ManagedObjectAddedEvent` and `ManagedObjectRemovedEvent`.
+ */
+export class ManagedMap<
+  T extends ManagedObject = ManagedObject,
+  K extends string | number = string
+> extends ManagedObject {
   /** Creates an empty map */
   constructor() {
     super();
@@ -44,7 +55,9 @@ export class ManagedMap<T extends ManagedObject = ManagedObject> extends Managed
    * Ensure that objects in this map are all instances of given class (or a sub class), and restrict newly mapped objects to instances of given class. Given class must be a sub class of `ManagedObject`.
    * @exception Throws an error if any object is not an instance of given class, or of a sub class.
    */
-  restrict<T extends ManagedObject>(classType: ManagedObjectConstructor<T>): ManagedMap<T> {
+  restrict<T extends ManagedObject>(
+    classType: ManagedObjectConstructor<T>
+  ): ManagedMap<T, K> {
     if (this.objects().some(o => !(o instanceof classType))) {
       throw err(ERROR.Map_Type);
     }
@@ -53,15 +66,27 @@ export class ManagedMap<T extends ManagedObject = ManagedObject> extends Managed
   }
   private _managedClassRestriction?: ManagedObjectConstructor<any>;
 
+  /** The number of keys in this map */
+  @shadowObservable("^count")
+  get count() {
+    return this[HIDDEN.STATE_PROPERTY] ? this["^count"] : 0;
+  }
+  private ["^count"] = 0;
+
+  /** The number of keys in this map (alias of `count`, for compatibility with native `Map`) */
+  get size() {
+    return this.count;
+  }
+
   /** Returns the current object mapped to given key, if any */
-  get(key: string): T | undefined {
+  get(key: K): T | undefined {
     if (!this[HIDDEN.STATE_PROPERTY]) return undefined;
     let ref = this[HIDDEN.REF_PROPERTY][HIDDEN.MANAGED_MAP_REF_PREFIX + String(key)];
     return ref && ref.b;
   }
 
   /** Returns true if any object is currently mapped to given key */
-  has(key: string) {
+  has(key: K) {
     if (!this[HIDDEN.STATE_PROPERTY]) return false;
     return !!this[HIDDEN.REF_PROPERTY][HIDDEN.MANAGED_MAP_REF_PREFIX + String(key)];
   }
@@ -70,14 +95,15 @@ export class ManagedMap<T extends ManagedObject = ManagedObject> extends Managed
    * Remove the mapping for given key.
    * @note Does not throw an error if given key was not mapped to any object at all.
    */
-  unset(key: string) {
+  unset(key: K) {
     // unlink existing reference, if any
-    let cur = this[HIDDEN.REF_PROPERTY][HIDDEN.MANAGED_MAP_REF_PREFIX + String(key)];
+    let propId = HIDDEN.MANAGED_MAP_REF_PREFIX + String(key);
+    let cur = this[HIDDEN.REF_PROPERTY][propId];
     let target = cur && cur.b;
-    if (cur && ManagedObject._discardRefLink(cur)) {
-      if (this.managedState) {
-        this.emit(ManagedObjectRemovedEvent, this, target, key);
-      }
+    if (cur && ManagedObject._discardRefLink(cur, this._batch && this._batch.detached)) {
+      delete this[HIDDEN.REF_PROPERTY][propId];
+      this["^count"]--;
+      this._keyRemoved(propId.slice(1), target);
     }
   }
 
@@ -90,24 +116,27 @@ export class ManagedMap<T extends ManagedObject = ManagedObject> extends Managed
    *  The managed object (or list, or map) to be mapped to given key
    * @exception Throws an error if the map itself has been destroyed (see `ManagedObject.managedState`).
    */
-  set(key: string, target?: T) {
+  set(key: K, target?: T) {
     if (!this[HIDDEN.STATE_PROPERTY]) {
       throw err(ERROR.Map_Destroyed);
     }
     let refs = this[HIDDEN.REF_PROPERTY];
-    key = String(key);
+    let keyString = String(key);
 
     // check given value first
     ManagedObject._validateReferenceAssignment(this, target, this._managedClassRestriction);
     if (!target) return this.unset(key);
 
     // unlink existing reference, if any
-    let propId = HIDDEN.MANAGED_MAP_REF_PREFIX + key;
+    let propId = HIDDEN.MANAGED_MAP_REF_PREFIX + keyString;
     let cur = refs[propId];
     if (cur) {
       if (target && cur.b === target) return;
-      ManagedObject._discardRefLink(cur);
+      ManagedObject._discardRefLink(cur, this._batch && this._batch.detached);
+    } else {
+      this["^count"]++;
     }
+    this._setKeyValue(keyString, key);
 
     // create new reference and update target count
     let ref = ManagedObject._createRefLink(
@@ -126,9 +155,9 @@ export class ManagedMap<T extends ManagedObject = ManagedObject> extends Managed
       },
       target => {
         // handle target moved/destroyed
-        if (this.managedState) {
-          this.emit(ManagedObjectRemovedEvent, this, target, key);
-        }
+        if (refs[propId] === undefined) delete refs[propId];
+        this["^count"]--;
+        this._keyRemoved(keyString, target);
       }
     );
 
@@ -136,42 +165,47 @@ export class ManagedMap<T extends ManagedObject = ManagedObject> extends Managed
     if (refs.parent && !this._isWeakRef) {
       ManagedObject._makeManagedChildRefLink(ref);
     }
-    this.emit(ManagedObjectAddedEvent, this, target, key);
+    this.emit(ManagedObjectAddedEvent, this, target, keyString);
+    this.emit(ManagedMapKeyChangeEvent, this, key, target);
     return this;
   }
 
   /** Remove given object from this map (same as calling `unset(...)` on all keys that refer to given object) */
   remove(target: T) {
     let refs = this[HIDDEN.REF_PROPERTY];
-    let removed: boolean | undefined;
-    let key: string | undefined;
     for (let propId in refs) {
       if (refs[propId] && refs[propId]!.b === target) {
-        if (ManagedObject._discardRefLink(refs[propId]!)) {
-          key = propId.slice(1);
-          removed = true;
+        if (
+          ManagedObject._discardRefLink(refs[propId]!, this._batch && this._batch.detached)
+        ) {
+          delete refs[propId];
+          this["^count"]--;
+          this._keyRemoved(propId.slice(1), target);
         }
       }
     }
-    if (removed && this.managedState) {
-      this.emit(ManagedObjectRemovedEvent, this, target, key);
-    }
     return this;
   }
 
   /** Remove all objects from this map */
   clear() {
     let refs = this[HIDDEN.REF_PROPERTY];
-    let removed: boolean | undefined;
+    let keys: K[] = [];
     for (let propId in refs) {
       if (propId[0] === HIDDEN.MANAGED_MAP_REF_PREFIX) {
         let ref = refs[propId];
-        if (ManagedObject._discardRefLink(ref)) {
-          removed = true;
+        if (ManagedObject._discardRefLink(ref, this._batch && this._batch.detached)) {
+          keys.push(this._getKeyValue(propId.slice(1)));
         }
+        delete refs[propId];
       }
     }
-    if (removed) this.emitChange();
+    this["^count"] = 0;
+    this._keyValues = undefined;
+    if (keys.length && this.managedState) {
+      if (!this._batch) this.emitChange();
+      keys.forEach(key => this.emit(ManagedMapKeyChangeEvent, this, key));
+    }
     return this;
   }
 
@@ -193,37 +227,143 @@ export class ManagedMap<T extends ManagedObject = ManagedObject> extends Managed
     return result;
   }
 
-  /** Returns a list of all keys in this map */
+  /** Returns a list of all keys in this map, in insertion order */
   keys() {
-    let result: string[] = [];
+    let result: K[] = [];
     let refs = this[HIDDEN.REF_PROPERTY];
     if (!refs) return result;
     for (let propId in refs) {
       if (propId[0] === HIDDEN.MANAGED_MAP_REF_PREFIX && refs[propId]) {
-        result.push(propId.slice(1));
+        result.push(this._getKeyValue(propId.slice(1)));
       }
     }
     return result;
   }
 
+  /** Returns an iterator for all objects in this map, in insertion order of their keys (the same object may be included more than once if it is mapped to multiple keys, as with a native `Map`) */
+  values(): IterableIterator<T> {
+    return _makeIterator(this.keys().map(key => this.get(key)!));
+  }
+
+  /** Returns an iterator for all `[key, object]` pairs in this map, in insertion order */
+  entries(): IterableIterator<[K, T]> {
+    return _makeIterator(this.keys().map(key => [key, this.get(key)!] as [K, T]));
+  }
+
+  /**
+   * Iterator symbol property to use managed map with 'for...of' statement, iterating over all `[key, object]` pairs in the same way as `entries()`
+   * @note The iterator uses a copy of all entries, i.e. changes made to the map while iterating do not affect the iteration.
+   */
+  [Symbol.iterator](): IterableIterator<[K, T]> {
+    return this.entries();
+  }
+
   /**
    * Iterates over the keys in this list and invokes given callback for each key and object.
    * @param callback
    *  the function to be called, with a key and a single object as the only argument
    * @note The behavior of this method is undefined if objects are inserted by the callback function.
    */
-  forEach(callback: (key: string, target: T) => void) {
+  forEach(callback: (key: K, target: T) => void) {
     let refs = this[HIDDEN.REF_PROPERTY];
     if (!refs) return;
     for (let propId in refs) {
       if (propId[0] === HIDDEN.MANAGED_MAP_REF_PREFIX && refs[propId]) {
-        let key = propId.slice(1);
+        let key = this._getKeyValue(propId.slice(1));
         let target: T = refs[propId] && refs[propId]!.b;
         if (target) callback(key, target);
       }
     }
   }
 
+  /**
+   * Run given callback as a batch update: change events that are emitted by this map while the callback runs are combined into a single `ManagedListBatchChangeEvent`, which is emitted afterwards (only if the map was actually changed).
+   * If the callback throws an error, all changes are rolled back and the error is rethrown.
+   * @note Child objects that are removed from the map (i.e. if the map itself is a managed child object) are only destroyed when the batch update ends, and only if they have not been added to the map again or rolled back. Objects that have been destroyed explicitly cannot be restored when rolling back changes.
+   */
+  batch(callback: (map: this) => void) {
+    this.beginUpdate();
+    try {
+      callback(this);
+    } catch (err) {
+      if (this.managedState) {
+        let old = this._batch!.objects;
+        let oldKeys = this._batch!.keyValues;
+        for (let key of this.keys()) {
+          if (!(String(key) in old)) this.unset(key);
+        }
+        for (let key in old) {
+          let keyValue = oldKeys && key in oldKeys ? oldKeys[key] : (key as K);
+          if (old[key].managedState) this.set(keyValue, old[key]);
+        }
+      }
+      this.endUpdate();
+      throw err;
+    }
+    this.endUpdate();
+    return this;
+  }
+
+  /**
+   * Start a batch update: change events are no longer emitted by this map, until `endUpdate` is called. Calls to `beginUpdate` and `endUpdate` may be nested; only the last call to `endUpdate` ends the batch update. See also `batch`.
+   */
+  beginUpdate() {
+    if (this._batch) this._batch.n++;
+    else {
+      this._batch = {
+        n: 1,
+        objects: this.toObject(),
+        keyValues: this._keyValues && { ...this._keyValues },
+        detached: [],
+      };
+    }
+    return this;
+  }
+
+  /**
+   * End a batch update that was started using `beginUpdate`. If this ends the (outermost) batch update, and the map has been changed, a single `ManagedListBatchChangeEvent` is emitted with a summary of all changes.
+   */
+  endUpdate() {
+    let batch = this._batch;
+    if (!batch || --batch.n > 0) return this;
+    this._batch = undefined;
+    ManagedObject._destroyDetachedChildren(batch.detached);
+
+    // find out which keys were changed, and which objects were added or removed
+    let old = batch.objects;
+    let objects = this.toObject();
+    let keys: string[] = [];
+    for (let key in old) {
+      if (old[key] !== objects[key]) keys.push(key);
+    }
+    for (let key in objects) {
+      if (!(key in old)) keys.push(key);
+    }
+    let oldObjects = _uniqueObjects(old);
+    let newObjects = _uniqueObjects(objects);
+    let added = newObjects.filter(o => oldObjects.indexOf(o) < 0);
+    let removed = oldObjects.filter(o => newObjects.indexOf(o) < 0);
+    if (this.managedState && keys.length) {
+      this.emit(ManagedListBatchChangeEvent, this, added, removed, [], keys);
+    }
+    return this;
+  }
+
+  /** Emit given event, unless a batch update is currently in progress and the event is a change event for this map itself (see `beginUpdate`) */
+  emit<TEvent extends ManagedEvent = ManagedEvent, TConstructorArgs extends any[] = any[]>(
+    e: TEvent | (new (...args: TConstructorArgs) => TEvent) | string,
+    ...constructorArgs: TConstructorArgs
+  ): this {
+    if (this._batch && typeof e === "function") e = new e(...constructorArgs).freeze();
+    if (
+      this._batch &&
+      (e instanceof ManagedListChangeEvent || e instanceof ManagedMapKeyChangeEvent) &&
+      e.source === this
+    )
+      return this;
+    return super.emit(e, ...constructorArgs);
+  }
+
   /** Returns true if given object is currently contained in this map */
   includes(target: T) {
     // check if map is included as reference source on target
@@ -238,7 +378,7 @@ export class ManagedMap<T extends ManagedObject = ManagedObject> extends Managed
 
   /** Returns an object with properties for all keys and objects in this map */
   toObject() {
-    let result: { [index: string]: T } = Object.create(null);
+    let result: { [key: string]: T } = Object.create(null);
     if (!this[HIDDEN.STATE_PROPERTY]) return result;
     let refs = this[HIDDEN.REF_PROPERTY];
     for (let propId in refs) {
@@ -271,8 +411,70 @@ export class ManagedMap<T extends ManagedObject = ManagedObject> extends Managed
     }
   }
 
+  /** Returns the original (typed) key for given key string */
+  private _getKeyValue(keyString: string): K {
+    let keyValues = this._keyValues;
+    return keyValues && keyString in keyValues ? keyValues[keyString] : (keyString as K);
+  }
+
+  /** Store the original key for given key string, if it is not a string itself */
+  private _setKeyValue(keyString: string, key?: K) {
+    if (key !== undefined && typeof key !== "string") {
+      if (!this._keyValues) this._keyValues = Object.create(null);
+      this._keyValues![keyString] = key;
+    } else if (this._keyValues) {
+      delete this._keyValues[keyString];
+    }
+  }
+
+  /** Emit events for given key after the mapped object has been removed */
+  private _keyRemoved(keyString: string, target?: ManagedObject) {
+    let key = this._getKeyValue(keyString);
+    this._setKeyValue(keyString);
+    if (this.managedState) {
+      if (target) this.emit(ManagedObjectRemovedEvent, this, target, keyString);
+      this.emit(ManagedMapKeyChangeEvent, this, key);
+    }
+  }
+
   /** @internal */
   private [HIDDEN.NONCHILD_EVENT_HANDLER]: (e: ManagedEvent, name: string) => void;
 
   private _isWeakRef?: boolean;
+
+  /** Original keys that are not strings, by key string */
+  private _keyValues?: { [keyString: string]: K };
+
+  /** Current batch update, if any (see `beginUpdate`), including child objects that should be destroyed afterwards */
+  private _batch?: {
+    n: number;
+    objects: { [key: string]: T };
+    keyValues?: { [keyString: string]: K };
+    detached: ManagedObject[];
+  };
+}
+
+/** Helper function to get a list of unique objects from given key-object mapping */
+function _uniqueObjects<T>(mapped: { [key: string]: T }) {
+  let result: T[] = [];
+  for (let key in mapped) {
+    if (result.indexOf(mapped[key]) < 0) result.push(mapped[key]);
+  }
+  return result;
+}
+
+/** Helper function to create an iterable iterator for given list of items */
+function _makeIterator<T>(items: T[]): IterableIterator<T> {
+  let i = 0;
+  let it: IterableIterator<T> = {
+    next() {
+      return i < items.length
+        ? { done: false, value: items[i++] }
+        : ({ done: true, value: undefined } as any);
+    },
+    [Symbol.iterator]() {
+      return it;
+    },
+  };
+  return it;
 }
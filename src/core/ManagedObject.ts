@@ -7,10 +7,14 @@ import {
   CHANGE,
 } from "./ManagedEvent";
 import { ManagedReference } from "./ManagedReference";
+import { ManagedStateSignal } from "./ManagedStateSignal";
 import { observe } from "./observe";
 import * as util from "./util";
 import { HIDDEN } from "./util";
 
+/** Property ID for the reference link from an event stream to its source object */
+const STREAM_SOURCE_PROP_ID = HIDDEN.PROPERTY_ID_PREFIX + "*evts";
+
 /** Alias for Object.prototype.hasOwnProperty */
 const _hOP = Object.prototype.hasOwnProperty;
 
@@ -169,6 +173,7 @@ export class ManagedObject {
 
     // run callbacks, if any
     this["_@@"]();
+    if (util.lifecycleHandler) util.lifecycleHandler(this, ManagedState.CREATED);
   }
 
   /** Unique ID of this managed object (read only) */
@@ -290,6 +295,16 @@ export class ManagedObject {
     else this.emit(ManagedChangeEvent, name);
   }
 
+  /**
+   * Returns an asynchronous iterable stream of events that are emitted on this object, optionally filtered by event class(es), e.g. `for await (let e of obj.events(ManagedChangeEvent)) ...`. Only events that are emitted after the first call to `next` (i.e. the start of the loop) are included.
+   * The stream ends when the iterator is returned (e.g. using `break` in a `for await` loop), or when this object is destroyed; events that have not been consumed yet are buffered up to a maximum number (see `ManagedEventStream.maxBuffered`).
+   */
+  events<TEvent extends ManagedEvent = ManagedEvent>(
+    ...types: Array<new (...args: any[]) => TEvent>
+  ): ManagedEventStream<TEvent> {
+    return new ManagedEventStream<TEvent>(this, types);
+  }
+
   /**
    * Propagate events from managed child objects that are _referenced_ as properties of this object (see `@managedChild` decorator) by emitting the same events on this object itself.
    * If a function is specified, the function can be used to transform one event to one or more others, or stop propagation if the function returns undefined. The function is called with the event itself as its first argument, and the name of the property that references the emitting object as its second argument.
@@ -358,13 +373,26 @@ export class ManagedObject {
     return this;
   }
 
+  /**
+   * Wait for all ongoing and pending state transitions to be completed (or cancelled), and return the resulting state.
+   * @note This method never throws errors for failed or cancelled transitions.
+   */
+  async whenManagedStateSettledAsync() {
+    let t: ManagedStateTransition | undefined;
+    while ((t = this._transition)) {
+      await t.p.catch(() => {});
+      if (this._transition === t) break;
+    }
+    return this.managedState;
+  }
+
   /** Activate this object (i.e. change state to `ManagedState.ACTIVATING` and then to `ManagedState.ACTIVATED`); the `onManagedStateActivatingAsync` and `onManagedStateActiveAsync` methods are called in this process */
   protected async activateManagedAsync() {
     return this._transitionManagedState(
       ManagedState.ACTIVE,
-      async () => {
+      async signal => {
         this[HIDDEN.STATE_PROPERTY] = ManagedState.ACTIVATING;
-        await this.onManagedStateActivatingAsync();
+        await this.onManagedStateActivatingAsync(signal);
       },
       ManagedCoreEvent.ACTIVE,
       this.onManagedStateActiveAsync
@@ -375,9 +403,9 @@ export class ManagedObject {
   protected async deactivateManagedAsync() {
     await this._transitionManagedState(
       ManagedState.INACTIVE,
-      async () => {
+      async signal => {
         this[HIDDEN.STATE_PROPERTY] = ManagedState.DEACTIVATING;
-        await this.onManagedStateDeactivatingAsync();
+        await this.onManagedStateDeactivatingAsync(signal);
       },
       ManagedCoreEvent.INACTIVE,
       this.onManagedStateInactiveAsync
@@ -427,19 +455,20 @@ export class ManagedObject {
             fn(this);
           } catch {}
         });
+        _releaseWeakRefs(this, true);
       },
       ManagedCoreEvent.DESTROYED
     );
   }
 
-  /** Callback invoked when changing state to 'active', can be overridden to perform any actions before activating */
-  protected async onManagedStateActivatingAsync() {}
+  /** Callback invoked when changing state to 'active', can be overridden to perform any actions before activating; given signal is aborted when another state transition is requested in the meantime (see `ManagedStateSignal`) */
+  protected async onManagedStateActivatingAsync(_signal?: ManagedStateSignal) {}
 
   /** Callback invoked immediately after state has changed to 'active' and before any other state transitions, can be overridden */
   protected async onManagedStateActiveAsync() {}
 
-  /** Callback invoked when changing state to 'inactive', can be overridden to perform any actions before deactivating */
-  protected async onManagedStateDeactivatingAsync() {}
+  /** Callback invoked when changing state to 'inactive', can be overridden to perform any actions before deactivating; given signal is aborted when another state transition is requested in the meantime (see `ManagedStateSignal`) */
+  protected async onManagedStateDeactivatingAsync(_signal?: ManagedStateSignal) {}
 
   /** Callback invoked immediately after state has changed to 'inactive' and before any other state transitions, can be overridden */
   protected async onManagedStateInactiveAsync() {}
@@ -450,7 +479,7 @@ export class ManagedObject {
   /** Implementation for all state transition methods: handle state transitions asynchronously with a way to chain next transitions */
   private _transitionManagedState(
     newState: ManagedState,
-    callback: () => undefined | Promise<any>,
+    callback: (signal: ManagedStateSignal) => undefined | Promise<any>,
     event: ManagedEvent,
     callbackAfter?: () => undefined | Promise<any>
   ) {
@@ -470,9 +499,10 @@ export class ManagedObject {
       let changedState: boolean | undefined;
       this._transition = t;
       try {
-        await callback.call(this);
+        await callback.call(this, t.signal);
         this[HIDDEN.STATE_PROPERTY] = newState;
         changedState = true;
+        if (util.lifecycleHandler) util.lifecycleHandler(this, newState);
         this.emit(event);
         callbackAfter && callbackAfter.call(this);
       } finally {
@@ -490,6 +520,7 @@ export class ManagedObject {
       // return an object that represents the transition which can be cancelled
       let result: ManagedStateTransition = {
         state: newState,
+        signal: new ManagedStateSignal(),
         p: new Promise((resolve, reject) => {
           // wait for previous promise, then make this current
           rejectResult = reject;
@@ -501,7 +532,8 @@ export class ManagedObject {
         }),
         reject() {
           rejected = true;
-          rejectResult(err(ERROR.Object_StateCancelled));
+          result.signal.abort();
+          rejectResult(ManagedStateSignal.createCancellation());
         },
       };
       return result;
@@ -521,11 +553,16 @@ export class ManagedObject {
         this._transition.pending = undefined;
       }
 
-      // check if *same* transition is already ongoing
-      if (this._transition.state === newState) {
+      // check if *same* transition is already ongoing (and not cancelled)
+      if (this._transition.state === newState && !this._transition.signal.aborted) {
         return this._transition.p;
       }
 
+      // signal cancellation to the ongoing transition, unless destroying
+      if (this._transition.state !== ManagedState.DESTROYED) {
+        this._transition.signal.abort();
+      }
+
       // schedule transition after the ongoing one
       return (this._transition.pending = makeTransition(this._transition.p)).p;
     } else {
@@ -573,8 +610,8 @@ export class ManagedObject {
     return ref;
   }
 
-  /** @internal Unlink given managed reference link object; returns true if unlinked, false if argument was not a RefLink instance */
-  protected static _discardRefLink(ref?: util.RefLink) {
+  /** @internal Unlink given managed reference link object; returns true if unlinked, false if argument was not a RefLink instance. If an array is given, child objects that are no longer referenced by their parent are added to the array instead of being destroyed (see `_destroyDetachedChildren`). */
+  protected static _discardRefLink(ref?: util.RefLink, detached?: ManagedObject[]) {
     if (!ref || !(ref.u >= 0) || !ref.a || !ref.b) return false;
     let sourceRefs = ref.a && ref.a[HIDDEN.REF_PROPERTY];
     if (sourceRefs && sourceRefs[ref.p] === ref) {
@@ -593,7 +630,7 @@ export class ManagedObject {
     let targetRefs = ref.b && ref.b[HIDDEN.REF_PROPERTY];
     if (targetRefs && targetRefs[ref.u] === ref) {
       // remove back reference and update reference count
-      ref.b[HIDDEN.REFCOUNT_PROPERTY]--;
+      if (!--ref.b[HIDDEN.REFCOUNT_PROPERTY]) _releaseUnreferenced(ref.b);
       if (ref.u >= 0 && ref.u === targetRefs.length - 1) {
         let i = targetRefs.length - 2;
         while (i >= 0 && targetRefs[i] === undefined) i--;
@@ -605,13 +642,23 @@ export class ManagedObject {
       // if this was a parent-child link, destroy the child object
       if (targetRefs.parent === ref && ref.b !== ref.a) {
         targetRefs.parent = undefined;
-        (ref.b as ManagedObject).destroyManagedAsync().catch(util.exceptionHandler);
+        if (detached) detached.push(ref.b);
+        else (ref.b as ManagedObject).destroyManagedAsync().catch(util.exceptionHandler);
       }
     }
     if (_freeRefLinks.length < MAX_FREE_REFLINKS) _freeRefLinks.push(ref);
     return true;
   }
 
+  /** @internal Destroy given objects that were detached from their parent (see `_discardRefLink`), unless they have been added to another parent in the meantime */
+  protected static _destroyDetachedChildren(objects: ManagedObject[]) {
+    for (let object of objects) {
+      if (object[HIDDEN.STATE_PROPERTY] && !object[HIDDEN.REF_PROPERTY].parent) {
+        object.destroyManagedAsync().catch(util.exceptionHandler);
+      }
+    }
+  }
+
   /** @internal Make given reference link object the (new) parent-child link for the referenced object */
   protected static _makeManagedChildRefLink(ref: util.RefLink, propertyName?: string) {
     let target: ManagedObject = ref.b;
@@ -692,6 +739,7 @@ export class ManagedObject {
 
     // (re)define property on prototype
     let propId = HIDDEN.PROPERTY_ID_PREFIX + _nextRefId++;
+    util.refPropertyNames[propId] = String(propertyKey);
     return util.defineChainableProperty(
       object,
       propertyKey,
@@ -756,11 +804,15 @@ export class ManagedObject {
             ManagedObject._createRefLink(this, readonlyRef, propId);
             this[propertyKey] = readonlyRef;
           }
-          return readonlyRef.get();
+          let target = readonlyRef.get();
+          if (util.readTracker) util.readTracker(this, propertyKey as string, target);
+          return target;
         }
 
         // normal getter: return referenced object
-        return ref && ref.b;
+        let result = ref && ref.b;
+        if (util.readTracker) util.readTracker(this, propertyKey as string, result);
+        return result;
       }
     );
   }
@@ -776,6 +828,10 @@ export class ManagedObject {
   private [HIDDEN.STATE_PROPERTY]!: ManagedState;
   /** @internal Chained event handler(s) */
   private [HIDDEN.EVENT_HANDLER]: (e: ManagedEvent) => void;
+  /** @internal Release callbacks for weak references to this object, by managed ID of the weak reference */
+  private [HIDDEN.WEAK_REFS_PROPERTY]?: {
+    [managedId: number]: (destroyed?: boolean) => void;
+  };
   /** @internal Chained event handler(s) */
   private [HIDDEN.CHILD_EVENT_HANDLER]: (e: ManagedEvent, name: string) => void;
 
@@ -786,6 +842,28 @@ export class ManagedObject {
   private _transition?: ManagedStateTransition;
 }
 
+/** Invoke (and remove) all release callbacks for weak references to given object, see `ManagedWeakReference` */
+function _releaseWeakRefs(object: ManagedObject, destroyed?: boolean) {
+  let callbacks = object[HIDDEN.WEAK_REFS_PROPERTY];
+  if (!callbacks) return;
+  object[HIDDEN.WEAK_REFS_PROPERTY] = undefined;
+  for (let id in callbacks) {
+    try {
+      callbacks[id](destroyed);
+    } catch (err) {
+      util.exceptionHandler(err);
+    }
+  }
+}
+
+/** Helper function to release weak references to given object asynchronously, but only if the object still has no managed references by then (i.e. not if it has been moved from one list to another) */
+function _releaseUnreferenced(object: ManagedObject) {
+  if (!object[HIDDEN.WEAK_REFS_PROPERTY]) return;
+  Promise.resolve().then(() => {
+    if (!object[HIDDEN.REFCOUNT_PROPERTY]) _releaseWeakRefs(object);
+  });
+}
+
 /** Represents an ongoing state transition, and the next transition after it */
 interface ManagedStateTransition {
   /** A promise for the transition */
@@ -794,9 +872,121 @@ interface ManagedStateTransition {
   /** The intended state after this transition */
   state: ManagedState;
 
+  /** Signal that is aborted when this transition is cancelled or replaced */
+  signal: ManagedStateSignal;
+
   /** Function to reject this state if it has not yet been completed */
   reject(): void;
 
   /** Next pending state transition (can be only one after the current transition); if this gets replaced, the `reject` function is called on the previous pending transition to cancel it */
   pending?: ManagedStateTransition;
 }
+
+/**
+ * Asynchronous iterable stream of events that are emitted on a managed object, see `ManagedObject.events`.
+ * The stream starts listening for events when `next` is first called (e.g. at the start of a `for await` loop), and is destroyed (and stops listening for events) when the iterator is returned, or when the source object is destroyed.
+ */
+export class ManagedEventStream<
+  TEvent extends ManagedEvent = ManagedEvent
+> extends ManagedObject {
+  /** Create a new stream of events emitted on given source object, only including events that are instances of given event classes (if any); use `ManagedObject.events` instead */
+  constructor(source: ManagedObject, types: Array<new (...args: any[]) => TEvent> = []) {
+    super();
+    this._source = source;
+    this._types = types;
+  }
+
+  /** Maximum number of events that are buffered while they are not being consumed; if more events are emitted, the oldest events are discarded (defaults to 100) */
+  maxBuffered = 100;
+
+  /** True if the stream has ended, i.e. the iterator was returned or the source object was destroyed (read only) */
+  get done() {
+    return !!this._done;
+  }
+
+  /** Returns a promise for the next event; resolves to a result with `done` set to true if the stream has ended and there are no more buffered events */
+  next(): Promise<IteratorResult<TEvent, undefined>> {
+    if (this._queue.length) {
+      return Promise.resolve({ done: false, value: this._queue.shift()! });
+    }
+    this._subscribe();
+    if (this._done) return Promise.resolve({ done: true, value: undefined });
+    return new Promise(resolve => {
+      this._pending.push(resolve);
+    });
+  }
+
+  /** Ends the stream, discarding all buffered events (called automatically when breaking out of a `for await` loop) */
+  return(): Promise<IteratorResult<TEvent, undefined>> {
+    this._queue.length = 0;
+    this._end();
+    return Promise.resolve({ done: true, value: undefined });
+  }
+
+  /** Start listening for events on the source object, if not done already */
+  private _subscribe() {
+    let source = this._source;
+    if (!source) return;
+    this._source = undefined;
+    if (this._done) return;
+    if (!source.managedState) return this._end();
+    let types = this._types;
+    ManagedObject._createRefLink(
+      this,
+      source,
+      STREAM_SOURCE_PROP_ID,
+      e => {
+        if (types.length && !types.some(type => e instanceof type)) return;
+        let pending = this._pending.shift();
+        if (pending) return pending({ done: false, value: e as TEvent });
+        this._queue.push(e as TEvent);
+        if (this._queue.length > this.maxBuffered) this._queue.shift();
+      },
+      () => {
+        this._end();
+      }
+    );
+  }
+
+  /** End the stream, resolve all pending promises, and destroy the stream itself */
+  private _end() {
+    if (this._done) return;
+    this._done = true;
+    let pending = this._pending.splice(0);
+    pending.forEach(resolve => resolve({ done: true, value: undefined }));
+    if (this.managedState) this.destroyManagedAsync().catch(util.exceptionHandler);
+  }
+
+  private _done?: boolean;
+
+  /** The source object, until the stream starts listening for events */
+  private _source?: ManagedObject;
+
+  /** Event classes to include, if any */
+  private readonly _types: Array<new (...args: any[]) => TEvent>;
+
+  /** Events that have been emitted but not yet consumed */
+  private _queue: TEvent[] = [];
+
+  /** Resolve functions for promises returned by `next` that are still pending */
+  private _pending: Array<(result: IteratorResult<TEvent, undefined>) => void> = [];
+}
+
+export interface ManagedEventStream<TEvent extends ManagedEvent = ManagedEvent> {
+  /** Returns the stream itself, for use with `for await` loops (only available if `Symbol.asyncIterator` is supported or polyfilled) */
+  [Symbol.asyncIterator](): ManagedEventStream<TEvent>;
+}
+
+// declare Symbol.asyncIterator without requiring the ES2018 lib
+declare global {
+  interface SymbolConstructor {
+    readonly asyncIterator: symbol;
+  }
+}
+
+// make event streams async iterable, if supported (a polyfill for Symbol.asyncIterator should be loaded first in older browsers)
+if (typeof Symbol === "function" && Symbol.asyncIterator) {
+  ManagedEventStream.prototype[Symbol.asyncIterator] = function () {
+    return this;
+  };
+}
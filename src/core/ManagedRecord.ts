@@ -3,6 +3,22 @@ import { ManagedList } from "./ManagedList";
 import { ManagedMap } from "./ManagedMap";
 import { ManagedObject } from "./ManagedObject";
 import { ManagedReference } from "./ManagedReference";
+import {
+  DeepObserver,
+  escapePathSegment,
+  getChildEntries,
+  getRecordValues,
+  getShallowSnapshot,
+  isChildObject,
+  observeDeep,
+} from "./observeDeep";
+import {
+  applyDiff,
+  diffSnapshots,
+  ManagedSnapshot,
+  SnapshotValue,
+  takeSnapshot,
+} from "./snapshot";
 import { ERROR, err } from "../errors";
 import { HIDDEN } from "./util";
 
@@ -13,6 +29,66 @@ export type ManagedRecordConstructor<TObject extends ManagedRecord = ManagedReco
 
 /** Managed record base class. Represents data that is managed (as `ManagedObject`), with additional methods to managed inward references — especially useful for constructing the application model */
 export class ManagedRecord extends Component {
+  /** Types (or schemas) of the fields of this record class, used by `deserialize`, `serialize`, and for validation. Fields that are not included here are copied as-is by `deserialize` (unless the current value is a managed object). This property is populated automatically by the `@field` decorator; when defined explicitly, fields of a base class need to be included as well, e.g. `static fields = { ...Base.fields, name: "string" }` */
+  static fields?: ManagedRecord.FieldMap;
+
+  /**
+   * Create a new instance of this class (a sub class of `ManagedRecord`) from given plain object, e.g. the result of `serialize()`. Values are checked and converted according to the types listed in the static `fields` property: nested records, lists, maps, and references are created (or existing lists, maps, and references updated) recursively. Objects of the form `{ $ref: path }` are resolved to the record that was deserialized at given path, so that the same record is not duplicated.
+   * @error Throws a `ManagedRecord.DeserializeError`, which includes the path of each field with an invalid value (e.g. `items/1/name`) in its message as well as in its `errors` property.
+   */
+  static deserialize<TResult extends ManagedRecord>(this: { new (): TResult }, json: any) {
+    let context: _DeserializeContext = {
+      errors: Object.create(null),
+      records: Object.create(null),
+      refs: [],
+    };
+    let result = _deserializeRecord(this, json, "", context);
+    context.refs.forEach(f => f());
+    let paths = Object.keys(context.errors);
+    if (paths.length) {
+      let message = paths.map(p => (p || "(root)") + " (" + context.errors[p] + ")");
+      let error = err(ERROR.Record_Deserialize, message.join(", "));
+      (error as ManagedRecord.DeserializeError).errors = context.errors;
+      throw error;
+    }
+    return result as TResult;
+  }
+
+  /** Validate given value for the field with given name, using the schema in the static `fields` property of this class (see `@field`); returns an error, or undefined if the value is valid */
+  static validateField(name: string, value: any, record?: ManagedRecord) {
+    let schema = this.fields && this.fields[name];
+    if (!schema) return;
+    let options: Partial<ManagedRecord.FieldSchema> =
+      typeof schema === "object" && "type" in schema ? schema : {};
+    let type = _getFieldType(schema);
+    let length =
+      value instanceof ManagedList
+        ? value.count
+        : value instanceof ManagedMap
+        ? value.keys().length
+        : typeof value === "string" || Array.isArray(value)
+        ? value.length
+        : undefined;
+    if (value === undefined || value === null || length === 0) {
+      return options.required ? err(ERROR.Record_FieldRequired, name) : undefined;
+    }
+    if (!_isFieldType(type, value)) return err(ERROR.Record_FieldType, name);
+    if (
+      length! < options.minLength! ||
+      length! > options.maxLength! ||
+      (typeof value === "number" && (value < options.min! || value > options.max!))
+    ) {
+      return err(ERROR.Record_FieldRange, name);
+    }
+    if (options.test) {
+      try {
+        options.test(value, record);
+      } catch (e) {
+        return e instanceof Error ? e : Error(String(e));
+      }
+    }
+  }
+
   /** Create a new instance of this class (a sub class of `ManagedRecord`), and copy given properties. */
   static create<T extends object, TResult extends ManagedRecord>(
     this: { new (): TResult },
@@ -27,41 +103,134 @@ export class ManagedRecord extends Component {
     return result;
   }
 
-  /** Serialize this record as a regular object, including all string, number, boolean, and undefined property values (except for properties that start with an underscore, and `managedId`). Also calls `serialize` on all _child_ records (including those within lists and maps, but not regular arrays or objects, nor managed objects that are not referenced as child records) */
+  /** Validation errors for all fields with a schema (see `@field`), by property name; updated whenever a field value is set, and when `validate` is called */
+  get errors(): { readonly [p: string]: Error | undefined } {
+    return this._errors || (this._errors = Object.create(null));
+  }
+
+  /** True if the current values of all fields with a schema (see `@field`) are valid, even if they have not been validated yet (see `errors`); evaluated each time this property is read */
+  get valid() {
+    let C = this.constructor as typeof ManagedRecord;
+    for (let p in C.fields) {
+      if (C.validateField(p, (this as any)[p], this)) return false;
+    }
+    return true;
+  }
+
+  /** Validate the current values of all fields with a schema (see `@field`), updating the `errors` object; emits a change event if any field becomes valid or invalid, and returns true if all fields are valid */
+  validate() {
+    let fields = (this.constructor as typeof ManagedRecord).fields || {};
+    let changed = false;
+    for (let p in fields) {
+      if (this._validateField(p, true)) changed = true;
+    }
+    if (changed) this.emitChange();
+    return this.valid;
+  }
+
+  /**
+   * True if this record, or any of its child records, lists, and maps (see `@managedChild`) has changed since the last call to `markClean`; always false if `markClean` has not been called yet.
+   * @note The dirty state is updated for each change that is reported by `observeDeep`, by comparing only the changed value to the state stored by `markClean`. A change event is emitted whenever the record becomes dirty or clean, but this only happens in response to change events from the record and its child objects and assignments to managed properties, _not_ when a plain property value is set.
+   */
+  get isDirty() {
+    for (let _id in this._dirtyKeys) return true;
+    return false;
+  }
+
+  /** Store the current state of this record and all of its child objects, so that `isDirty`, `getDirtyFields`, and `revert` can be used to detect and undo any changes */
+  markClean() {
+    this._clean = takeSnapshot(this);
+    this._cleanObjects = _indexSnapshots(this._clean, Object.create(null));
+    this._dirtyKeys = Object.create(null);
+    if (!this._dirtyObserver) {
+      this._dirtyObserver = observeDeep(this, change => {
+        let object = change.object;
+        this._checkDirty(object, object instanceof ManagedList ? undefined : change.key);
+        if (change.newValue instanceof ManagedObject) this._checkDirtyTree(change.newValue);
+        this._updateDirty();
+      });
+    }
+    this._updateDirty();
+    return this;
+  }
+
+  /** Returns a list of paths of all properties (including those of child records) and lists that have changed since the last call to `markClean`, e.g. `name`, `lines/0/qty`, and `lines`; compares a new snapshot of this record with the stored state, which also includes plain property values that have been set without emitting a change event */
+  getDirtyFields() {
+    let diff = this._getDirtyDiff();
+    let result: string[] = [];
+    if (diff) {
+      const add = (path: string) => {
+        if (result.indexOf(path) < 0) result.push(path);
+      };
+      diff.changed.forEach(change => add(change.path));
+      diff.added
+        .concat(diff.removed, diff.moved)
+        .forEach(item => add(item.path.replace(/\/?[^\/]*$/, "")));
+    }
+    return result;
+  }
+
+  /** Undo all changes to this record and its child objects since the last call to `markClean`; has no effect if `markClean` has not been called yet */
+  revert() {
+    if (this._clean) {
+      applyDiff(this, diffSnapshots(takeSnapshot(this), this._clean));
+      this._dirtyKeys = Object.create(null);
+      this._updateDirty();
+    }
+    return this;
+  }
+
+  /** Serialize this record as a regular object, including all string, number, boolean, and undefined property values (except for properties that start with an underscore, and `managedId`). Also calls `serialize` on all _child_ records (including those within lists and maps, but not regular arrays or objects, nor managed objects that are not referenced as child records), as well as records referenced by fields that have been declared using the static `fields` property or the `@field` decorator. Records that are included more than once (e.g. the target of a reference that is also a child record) are serialized only once, and referred to as `{ $ref: path }` elsewhere, with the path relative to the record on which `serialize` was called (see `observeDeep`) */
   serialize() {
-    let result = Object.create(null);
-    const serializeValue = (p: string, v: any): any => {
-      if (
-        v === undefined ||
-        v === null ||
-        typeof v === "string" ||
-        typeof v === "number" ||
-        typeof v === "boolean"
-      )
-        return v;
-      if (Array.isArray(v)) return v.map((x, i) => serializeValue(p + "." + i, x));
-      if (v instanceof ManagedObject) {
-        if (v instanceof ManagedRecord && v.getParentRecord() === this)
-          return v.serialize();
-        if (v instanceof ManagedReference) return serializeValue(p, v.get());
-        if (v instanceof ManagedList) return v.map(x => serializeValue(p, x));
-        if (v instanceof ManagedMap) {
-          let result = Object.create(null);
-          v.forEach((key, value) => {
-            result[key] = serializeValue(p + "#" + key, value);
-          });
-          return result;
+    let isRoot = !_serializePaths;
+    let paths = _serializePaths || (_serializePaths = _findRecordPaths(this, "", {}));
+    try {
+      let fields = (this.constructor as typeof ManagedRecord).fields || {};
+      let result = Object.create(null);
+      const serializeValue = (p: string, v: any, declared?: boolean): any => {
+        if (
+          v === undefined ||
+          v === null ||
+          typeof v === "string" ||
+          typeof v === "number" ||
+          typeof v === "boolean"
+        )
+          return v;
+        if (Array.isArray(v))
+          return v.map((x, i) => serializeValue(_subPath(p, i), x, declared));
+        if (v instanceof ManagedObject) {
+          if (v instanceof ManagedRecord && (declared || v.getParentRecord() === this)) {
+            let found = paths[v.managedId];
+            if (found !== undefined && found !== p) return { $ref: found };
+            if (found === undefined) _findRecordPaths(v, p, paths);
+            return v.serialize();
+          }
+          if (v instanceof ManagedReference) return serializeValue(p, v.get(), declared);
+          if (v instanceof ManagedList) {
+            return v.toArray().map((x, i) => serializeValue(_subPath(p, i), x, declared));
+          }
+          if (v instanceof ManagedMap) {
+            let result = Object.create(null);
+            v.forEach((key, value) => {
+              result[key] = serializeValue(_subPath(p, key), value, declared);
+            });
+            return result;
+          }
+          return undefined;
         }
-        return undefined;
+        throw err(ERROR.Record_Serializable, p);
+      };
+      let path = paths[this.managedId] || "";
+      for (let p in this) {
+        if (!this.hasOwnProperty(p) || p[0] === "_" || p === "managedId") continue;
+        let declared = Object.prototype.hasOwnProperty.call(fields, p);
+        let v = serializeValue(_subPath(path, p), this[p], declared);
+        if (v !== undefined) result[p] = v;
       }
-      throw err(ERROR.Record_Serializable, p);
-    };
-    for (let p in this) {
-      if (!this.hasOwnProperty(p) || p[0] === "_" || p === "managedId") continue;
-      let v = serializeValue(p, this[p]);
-      if (v !== undefined) result[p] = v;
+      return result;
+    } finally {
+      if (isRoot) _serializePaths = undefined;
     }
-    return result;
   }
 
   /** Returns the parent record (or parent's parent, etc.). If a class reference is specified, finds the nearest parent of given type. See `@managedChild` decorator. */
@@ -128,4 +297,361 @@ export class ManagedRecord extends Component {
     addRefs(this);
     return result;
   }
+
+  /** @internal Validate the current value of given field, and update the `errors` object; emits a change event if the field becomes valid or invalid (unless `silent` is true), and returns true if that is the case */
+  _validateField(p: string, silent?: boolean) {
+    let error = (this.constructor as typeof ManagedRecord).validateField(
+      p,
+      (this as any)[p],
+      this
+    );
+    let errors = this.errors as { [p: string]: Error | undefined };
+    let flipped = !errors[p] !== !error;
+    errors[p] = error;
+    if (flipped && !silent) this.emitChange();
+    return flipped;
+  }
+
+  /** Returns the difference between the current state and the last clean state, or undefined if there are no changes */
+  private _getDirtyDiff() {
+    if (!this._clean) return;
+    let diff = diffSnapshots(this._clean, this);
+    if (
+      diff.added.length ||
+      diff.removed.length ||
+      diff.moved.length ||
+      diff.changed.length
+    ) {
+      return diff;
+    }
+  }
+
+  /** Stop tracking the dirty state when this record is destroyed */
+  protected async onManagedStateDestroyingAsync() {
+    await super.onManagedStateDestroyingAsync();
+    if (this._dirtyObserver) this._dirtyObserver.stop();
+  }
+
+  /** Update the dirty state of given object (only for given key, if any), by comparing its current state to the snapshot stored by `markClean`; objects that were added later are not tracked, since their parent object is dirty anyway */
+  private _checkDirty(object: ManagedObject, key?: string) {
+    let id = object.managedId;
+    let clean = this._cleanObjects && this._cleanObjects[id];
+    let dirtyKeys = this._dirtyKeys;
+    if (!clean || !dirtyKeys) return;
+    let keys = dirtyKeys[id] || (dirtyKeys[id] = Object.create(null));
+    if (object instanceof ManagedList) {
+      let items = object.toArray();
+      let cleanItems = clean.items || [];
+      if (
+        items.length !== cleanItems.length ||
+        items.some((o, i) => o.managedId !== cleanItems[i].managedId)
+      ) {
+        keys[""] = true;
+      } else {
+        delete keys[""];
+      }
+    } else {
+      let values = getShallowSnapshot(object);
+      let cleanValues = clean.properties || {};
+      let check =
+        key !== undefined ? [key] : Object.keys(values).concat(Object.keys(cleanValues));
+      for (let k of check) {
+        let v = values[k];
+        if (object instanceof ManagedRecord && !isChildObject(object, v)) {
+          if (v instanceof ManagedObject) v = undefined;
+        }
+        if (_isCleanValue(cleanValues[k], v)) delete keys[k];
+        else keys[k] = true;
+      }
+    }
+    for (let _k in keys) return;
+    delete dirtyKeys[id];
+  }
+
+  /** Update the dirty state of given object and all of its child objects, recursively */
+  private _checkDirtyTree(object: ManagedObject) {
+    this._checkDirty(object);
+    getChildEntries(object).forEach(child => this._checkDirtyTree(child.object));
+  }
+
+  /** Check if the record became dirty or clean, and emit a change event if needed */
+  private _updateDirty() {
+    let dirty = this.isDirty;
+    if (!this._dirty !== !dirty) {
+      this._dirty = dirty;
+      this.emitChange();
+    }
+  }
+
+  private _errors?: { [p: string]: Error | undefined };
+  private _clean?: ManagedSnapshot;
+  private _cleanObjects?: { [managedId: number]: ManagedSnapshot };
+  private _dirtyKeys?: { [managedId: number]: { [key: string]: true } };
+  private _dirty?: boolean;
+  private _dirtyObserver?: DeepObserver;
+}
+
+export namespace ManagedRecord {
+  /** Type of a record field, used by `ManagedRecord.deserialize`: a primitive type, a record class, a list or map of records, a reference to a record, or a plain array */
+  export type FieldType =
+    | "string"
+    | "number"
+    | "boolean"
+    | "any"
+    | ManagedRecordConstructor
+    | { list: ManagedRecordConstructor }
+    | { map: ManagedRecordConstructor }
+    | { ref: ManagedRecordConstructor }
+    | { array: FieldType };
+
+  /** Options for the validation of a record field, see `@field` */
+  export interface FieldOptions {
+    /** True if the field must be set to a value other than undefined, null, an empty string, or an empty array, list, or map */
+    required?: boolean;
+    /** Minimum length of a string or array, or number of objects in a list or map */
+    minLength?: number;
+    /** Maximum length of a string or array, or number of objects in a list or map */
+    maxLength?: number;
+    /** Minimum numeric value */
+    min?: number;
+    /** Maximum numeric value */
+    max?: number;
+    /** Custom validation function, which should throw an error if the (non-empty) value is not valid */
+    test?: (value: any, record?: ManagedRecord) => void;
+  }
+
+  /** Type of a record field along with validation options, see `@field` */
+  export interface FieldSchema extends FieldOptions {
+    /** The field type */
+    type: FieldType;
+  }
+
+  /** Field types or schemas by property name, see `ManagedRecord.fields` */
+  export type FieldMap = { [p: string]: FieldType | FieldSchema };
+
+  /** Error thrown by `ManagedRecord.deserialize` */
+  export interface DeserializeError extends Error {
+    /** Descriptions of all invalid values (e.g. `expected string`), by path (e.g. `items/1/name`, or an empty string for the root record) */
+    errors: { [path: string]: string };
+  }
+}
+
+/** Helper function to find all snapshots of (child) objects within given snapshot, adding them to given object by managed ID */
+function _indexSnapshots(
+  snapshot: ManagedSnapshot,
+  result: { [managedId: number]: ManagedSnapshot }
+) {
+  if (snapshot.kind === "object") return result;
+  result[snapshot.managedId] = snapshot;
+  (snapshot.items || []).forEach(item => _indexSnapshots(item, result));
+  for (let p in snapshot.properties) {
+    let v = snapshot.properties[p];
+    if (v && typeof v === "object" && !Array.isArray(v)) {
+      _indexSnapshots(v as ManagedSnapshot, result);
+    }
+  }
+  return result;
+}
+
+/** Helper function to check if given value is the same as the value in a snapshot (i.e. the same object, or the same values) */
+function _isCleanValue(clean: SnapshotValue, value: any): boolean {
+  if (value instanceof ManagedObject) {
+    return !!clean && (clean as ManagedSnapshot).managedId === value.managedId;
+  }
+  if (Array.isArray(value)) {
+    return (
+      Array.isArray(clean) &&
+      clean.length === value.length &&
+      value.every((v, i) => _isCleanValue(clean[i], v))
+    );
+  }
+  return clean === value;
+}
+
+/** Paths of records that are being serialized, by managed ID; only set while `serialize` is running */
+let _serializePaths: { [managedId: number]: string } | undefined;
+
+/** Context for a call to `ManagedRecord.deserialize` */
+interface _DeserializeContext {
+  /** Descriptions of invalid values by path */
+  errors: { [path: string]: string };
+  /** All records that have been created by path, to resolve `$ref` objects */
+  records: { [path: string]: ManagedRecord };
+  /** Functions that resolve `$ref` objects, called after all records have been created */
+  refs: Array<() => void>;
+}
+
+/** Helper function to find given record and all records that are serialized along with it (i.e. child records and records in declared fields, but not references), adding their paths to given object by managed ID */
+function _findRecordPaths(
+  record: ManagedRecord,
+  path: string,
+  paths: { [managedId: number]: string }
+) {
+  paths[record.managedId] = path;
+  let fields = (record.constructor as typeof ManagedRecord).fields || {};
+  const find = (p: string, v: any, declared: boolean) => {
+    if (v instanceof ManagedRecord) {
+      if ((declared || v.getParentRecord() === record) && !(v.managedId in paths)) {
+        _findRecordPaths(v, p, paths);
+      }
+    } else if (Array.isArray(v) || v instanceof ManagedList) {
+      let items: any[] = Array.isArray(v) ? v : v.toArray();
+      items.forEach((x, i) => find(_subPath(p, i), x, declared));
+    } else if (v instanceof ManagedMap) {
+      v.forEach((key, x) => find(_subPath(p, key), x, declared));
+    }
+  };
+  let values = getRecordValues(record);
+  for (let p in values) {
+    find(_subPath(path, p), values[p], Object.prototype.hasOwnProperty.call(fields, p));
+  }
+  return paths;
+}
+
+/** Helper function to append given property name, list index, or map key to given path */
+function _subPath(path: string, key: string | number) {
+  let segment = escapePathSegment(String(key));
+  return path ? path + "/" + segment : segment;
+}
+
+/** Helper function to create a record from given plain object, adding errors to given context; if the object refers to another record (i.e. `{ $ref: path }`), the record is passed to given callback after all records have been created */
+function _deserializeRecord(
+  C: any,
+  json: any,
+  path: string,
+  context: _DeserializeContext,
+  resolve?: (record: ManagedRecord) => void
+) {
+  if (resolve && json && typeof json.$ref === "string") {
+    let refPath: string = json.$ref;
+    context.refs.push(() => {
+      let target = context.records[refPath];
+      if (target instanceof C) resolve(target);
+      else context.errors[path] = "invalid reference";
+    });
+    return;
+  }
+  if (!json || typeof json !== "object" || Array.isArray(json)) {
+    context.errors[path] = "expected object";
+    return;
+  }
+  let result = new C();
+  context.records[path] = result;
+  let fields: ManagedRecord.FieldMap = C.fields || {};
+  for (let p in json) {
+    if (p[0] === "_" || p === "managedId") continue;
+    let fieldPath = _subPath(path, p);
+    let current = result[p];
+    if (Object.prototype.hasOwnProperty.call(fields, p)) {
+      let type = _getFieldType(fields[p]);
+      let value = _deserializeValue(type, json[p], current, fieldPath, context, v => {
+        result[p] = v;
+      });
+      if (value !== current) result[p] = value;
+    } else if (current instanceof ManagedObject) {
+      context.errors[fieldPath] = "unknown field type";
+    } else {
+      result[p] = json[p];
+    }
+  }
+  return result as ManagedRecord;
+}
+
+/** Helper function to convert a single value according to given field type, reusing the current list, map, or reference if possible; records that are referred to using `{ $ref: path }` are passed to given callback later */
+function _deserializeValue(
+  type: ManagedRecord.FieldType,
+  value: any,
+  current: any,
+  path: string,
+  context: _DeserializeContext,
+  resolve: (value: any) => void
+): any {
+  if (value === undefined || value === null) return value;
+  if (typeof type === "string") {
+    if (type !== "any" && typeof value !== type) context.errors[path] = "expected " + type;
+    return value;
+  }
+  if (typeof type === "function") {
+    return _deserializeRecord(type, value, path, context, resolve);
+  }
+  if ("array" in type) {
+    if (!Array.isArray(value)) {
+      context.errors[path] = "expected array";
+      return current;
+    }
+    let array: any[] = value.map((v, i) =>
+      _deserializeValue(type.array, v, undefined, _subPath(path, i), context, x => {
+        array[i] = x;
+      })
+    );
+    return array;
+  }
+  if ("list" in type) {
+    if (!Array.isArray(value)) {
+      context.errors[path] = "expected array";
+      return current;
+    }
+    let list: ManagedList = current instanceof ManagedList ? current : new ManagedList();
+    let objects = value.map((v, i) =>
+      _deserializeRecord(type.list, v, _subPath(path, i), context, object => {
+        objects[i] = object;
+        list.replace(objects.filter(o => !!o) as ManagedRecord[]);
+      })
+    );
+    list.replace(objects.filter(o => !!o) as ManagedRecord[]);
+    return list;
+  }
+  if ("map" in type) {
+    if (typeof value !== "object" || Array.isArray(value)) {
+      context.errors[path] = "expected object";
+      return current;
+    }
+    let map: ManagedMap = current instanceof ManagedMap ? current : new ManagedMap();
+    map.clear();
+    for (let key in value) {
+      let object = _deserializeRecord(
+        type.map,
+        value[key],
+        _subPath(path, key),
+        context,
+        object => map.set(key, object)
+      );
+      if (object) map.set(key, object);
+    }
+    return map;
+  }
+  let reference: ManagedReference =
+    current instanceof ManagedReference ? current : new ManagedReference();
+  reference.set(
+    _deserializeRecord(type.ref, value, path, context, target => reference.set(target))
+  );
+  return reference;
+}
+
+/** Helper function to get the type from given field type or schema */
+function _getFieldType(schema: ManagedRecord.FieldType | ManagedRecord.FieldSchema) {
+  return typeof schema === "object" && "type" in schema ? schema.type : schema;
+}
+
+/** Helper function to check if given (non-empty) value matches given field type */
+function _isFieldType(type: ManagedRecord.FieldType, value: any): boolean {
+  if (typeof type === "string") return type === "any" || typeof value === type;
+  if (typeof type === "function") return value instanceof type;
+  if ("array" in type) {
+    return (
+      Array.isArray(value) &&
+      value.every(v => v === undefined || v === null || _isFieldType(type.array, v))
+    );
+  }
+  if ("list" in type) {
+    const C = type.list;
+    return value instanceof ManagedList && value.every(o => o instanceof C);
+  }
+  if ("map" in type) {
+    const C = type.map;
+    return value instanceof ManagedMap && value.objects().every(o => o instanceof C);
+  }
+  if (!(value instanceof ManagedReference)) return false;
+  let target = value.get();
+  return !target || target instanceof type.ref;
 }
@@ -1,65 +1,368 @@
 import { err, ERROR } from "../errors";
+import { ManagedMapKeyChangeEvent, ManagedParentChangeEvent } from "./ManagedEvent";
 import { ManagedMap } from "./ManagedMap";
 import { ManagedObject } from "./ManagedObject";
 import { managedChild, ManagedReference } from "./ManagedReference";
+import * as util from "./util";
+import { HIDDEN } from "./util";
+import { logUnhandledException } from "./UnhandledErrorEmitter";
+
+/** Property ID for the reference link from a managed object to its service scope, if any */
+const SCOPE_PROP_ID = HIDDEN.PROPERTY_ID_PREFIX + "*svc";
+
+/** Arbitrary prefix for the name of the (hidden) shadow property of a service property, see `@service` */
+const SERVICE_SHADOW_PREFIX = "^o:svc:";
+
+/** Arbitrary prefix for the name of the (hidden) property that contains the state of a service property for a single object, see `@service` */
+const SERVICE_STATE_PREFIX = "^o:svcs:";
+
+/** Prefix for property IDs of reference links from an object with a service property to the global service reference */
+const SERVICE_LINK_PROP_ID_PREFIX = HIDDEN.PROPERTY_ID_PREFIX + "*svc:";
+
+/** Prefix for property IDs of reference links from scope objects of pending calls to `ManagedService.whenReadyAsync` to the service container */
+const READY_LINK_PROP_ID_PREFIX = HIDDEN.PROPERTY_ID_PREFIX + "*svcr:";
+
+/** Next unique ID for reference links from scope objects, see `ServiceContainer.watchDestroyed` */
+let _nextReadyLinkId = 1;
+
+/** State of a service property for a single object: the scope version, parent reference link, and global service at the time the service was found */
+interface _ServicePropertyState {
+  v: number;
+  p?: util.RefLink;
+  g?: ManagedService;
+}
+
+/** Number that is incremented each time a scoped service is registered or removed, used to invalidate services that have been found before */
+let _scopeVersion = 0;
+
+/** Invalidate all services that have been found before, and update service properties for given name (uppercased) asynchronously */
+function _scopeChanged(ucName: string) {
+  _scopeVersion++;
+  Promise.resolve().then(() => {
+    let ref = ServiceContainer.instance.services.get(ucName);
+    if (ref) ref.emitChange();
+  });
+}
+
+/** Functions that check if services are ready, for all pending calls to `ManagedService.whenReadyAsync`; each function returns true if it can be removed */
+let _readyChecks: Array<() => boolean> = [];
+
+/** Run all functions that check if services are ready, after the state of any service has changed */
+function _checkReady() {
+  _readyChecks = _readyChecks.filter(f => !f());
+}
+
+/** Names (uppercased) of all services that have ever been registered, used for warnings in development mode */
+let _registeredNames: { [ucName: string]: boolean } = Object.create(null);
+
+/** Names (uppercased) of services for which a warning has been logged already */
+let _warnedNames: { [ucName: string]: boolean } = Object.create(null);
+
+/** Returns the uppercased name for given service name or token */
+function _getUCName(name: string | ManagedService.Token) {
+  return String(typeof name === "string" ? name : name.name).toUpperCase();
+}
 
 /** Singleton container for all services as child components */
 class ServiceContainer extends ManagedObject {
-  /** Singleton instance */
-  static readonly instance = new ServiceContainer();
+  /** Singleton instance (created when first used, after the `services` property has been decorated) */
+  static get instance() {
+    return this._instance || (this._instance = new ServiceContainer());
+  }
+  private static _instance?: ServiceContainer;
   private constructor() {
     super();
   }
 
+  /** Returns the global service reference for given name (uppercased), creating a new placeholder reference if needed */
+  static getReference(ucName: string) {
+    let ref = this.instance.services.get(ucName);
+    if (!ref) {
+      ref = new ManagedReference().restrict(ManagedService as any).propagateEvents() as any;
+      this.instance.services.set(ucName, ref!);
+    }
+    return ref!;
+  }
+
+  /** Link given object to given service reference, calling given function for all events that are emitted by the reference (including propagated events) */
+  static link(object: ManagedObject, ref: ManagedReference, propId: string, f: () => void) {
+    ManagedObject._createRefLink(object, ref, propId, () => f());
+  }
+
+  /** Call given function when given object is destroyed; returns a function that removes the link to the object again */
+  static watchDestroyed(object: ManagedObject, f: () => void) {
+    let ref: util.RefLink | undefined = ManagedObject._createRefLink(
+      object,
+      this.instance,
+      READY_LINK_PROP_ID_PREFIX + _nextReadyLinkId++,
+      undefined,
+      () => {
+        // link has been discarded already, do not discard it again
+        ref = undefined;
+        f();
+      }
+    );
+    return () => {
+      if (ref) ManagedObject._discardRefLink(ref);
+      ref = undefined;
+    };
+  }
+
   /** All service references indexed by name (uppercased), i.e. all reference object that refer to the service instances themselves */
   @managedChild
   readonly services = new ManagedMap<ManagedReference<ManagedService>>();
 }
 
+/** Container for services that are registered within the scope of a specific managed object, see `ManagedService.register` */
+class ServiceScope extends ManagedObject {
+  /** Returns the service scope for given object, if any; or creates a new scope as a child object if needed */
+  static getScope(object: ManagedObject, create?: boolean): ServiceScope | undefined {
+    let ref = object[HIDDEN.REF_PROPERTY][SCOPE_PROP_ID];
+    if (ref) return ref.b;
+    if (!create) return undefined;
+    let scope = new ServiceScope();
+    ManagedObject._makeManagedChildRefLink(
+      ManagedObject._createRefLink(object, scope, SCOPE_PROP_ID)
+    );
+    return scope;
+  }
+
+  /** Returns the service with given name (uppercased) that is registered in the scope of given object or the nearest parent object (see `ManagedObject.getManagedParent`), if any */
+  static findService(object: ManagedObject, ucName: string) {
+    let cur: ManagedObject | undefined = object;
+    while (cur) {
+      let scope = ServiceScope.getScope(cur);
+      let result = scope && scope.services.get(ucName);
+      if (result) return result;
+      let parentRef: util.RefLink | undefined = cur[HIDDEN.REF_PROPERTY].parent;
+      cur = parentRef && parentRef.a;
+    }
+    return undefined;
+  }
+
+  constructor() {
+    super();
+
+    // invalidate services that have been found before when a service is registered or removed
+    this.propagateChildEvents(e => {
+      if (e instanceof ManagedMapKeyChangeEvent) _scopeChanged(String(e.key));
+    });
+  }
+
+  /** All scoped services indexed by name (uppercased) */
+  @managedChild
+  readonly services = new ManagedMap<ManagedService>();
+}
+
 /**
- * Property decorator: turns the decorated property of a managed object into a read-only reference to the last registered service with given name (case insensitive). See `ManagedService`.
- * The value of the decorated property becomes undefined when the service is destroyed, and updates immediately when a new service is registered with the same name.
+ * Property decorator: turns the decorated property of a managed object into a read-only reference to the last registered service with given name (case insensitive) or token (see `ManagedService.token`). See `ManagedService`.
+ * Services that are registered within the scope of the object itself or any of its (managed) parent objects take precedence over globally registered services, with the nearest scope being used first (see `ManagedService.register`).
+ * The value of the decorated property becomes undefined when the service is destroyed, and updates immediately when a new service is registered with the same name, either globally or within any scope, or when the object itself is moved to another parent object.
  * Changes and events can be observed by an observer, but only after the property has been *read at least once*.
+ * @note The service is found once and cached, until any service with the same name is registered or removed. Moving a parent object to another scope does not update the cached service for its child objects until then.
+ * @note If `ManagedService.devMode` is true, a warning is logged when the decorated property is read but no service has ever been registered with the same name.
  * @decorator
  */
-export function service(serviceName: string): PropertyDecorator {
+export function service(serviceName: string | ManagedService.Token): PropertyDecorator {
   return (target, propertyKey) => {
-    let ucName = String(serviceName).toUpperCase();
-    let ref = ServiceContainer.instance.services.get(ucName);
-    if (!ref) {
-      // create new placeholder for this name
-      ref = new ManagedReference().restrict(ManagedService as any).propagateEvents() as any;
-      ServiceContainer.instance.services.set(ucName, ref);
-    }
+    let ucName = _getUCName(serviceName);
+    let ref = ServiceContainer.getReference(ucName);
 
-    // use a managed reference property with a fixed read-only reference object
-    ManagedObject.createManagedReferenceProperty(
-      target as any,
-      propertyKey as string,
-      false,
-      ref
-    );
+    // use a (hidden) managed reference property that contains the service that was found last
+    let shadowPropertyName = SERVICE_SHADOW_PREFIX + String(propertyKey);
+    let statePropertyName = SERVICE_STATE_PREFIX + String(propertyKey);
+    let linkPropId = SERVICE_LINK_PROP_ID_PREFIX + String(propertyKey);
+    ManagedObject.createManagedReferenceProperty(target as any, shadowPropertyName, false);
+    Object.defineProperty(target, shadowPropertyName, {
+      ...Object.getOwnPropertyDescriptor(target, shadowPropertyName),
+      enumerable: false,
+    });
+
+    // find scoped services first, otherwise use the global service
+    const isCurrent = (object: ManagedObject) => {
+      let state: _ServicePropertyState | undefined = (object as any)[statePropertyName];
+      return (
+        !!state &&
+        state.v === _scopeVersion &&
+        state.p === object[HIDDEN.REF_PROPERTY].parent &&
+        state.g === ref.get()
+      );
+    };
+    const update = (object: ManagedObject) => {
+      let state: _ServicePropertyState = (object as any)[statePropertyName];
+      if (!state) {
+        state = { v: 0 };
+        Object.defineProperty(object, statePropertyName, { value: state });
+      }
+      state.v = _scopeVersion;
+      state.p = object[HIDDEN.REF_PROPERTY].parent;
+      state.g = ref.get();
+      let result = ServiceScope.findService(object, ucName) || state.g;
+      if ((object as any)[shadowPropertyName] !== result) {
+        (object as any)[shadowPropertyName] = result;
+      }
+    };
+    const serviceGetter = function (this: ManagedObject) {
+      if (!this.managedState) {
+        return ServiceScope.findService(this, ucName) || ref.get();
+      }
+      if (!isCurrent(this)) update(this);
+      if (!this[HIDDEN.REF_PROPERTY][linkPropId]) {
+        // update the property when the service changes from now on
+        ServiceContainer.link(this, ref, linkPropId, () => {
+          if (this.managedState && !isCurrent(this)) update(this);
+        });
+      }
+      let result = (this as any)[shadowPropertyName];
+      if (!result && ManagedService.devMode && !_registeredNames[ucName]) {
+        if (!_warnedNames[ucName] && console.warn) {
+          _warnedNames[ucName] = true;
+          console.warn(err(ERROR.Service_NotRegistered, String(serviceName)).message);
+        }
+      }
+      return result;
+    };
+    (serviceGetter as any)[HIDDEN.GETTER_SHADOW_PROP] = shadowPropertyName;
+    Object.defineProperty(target, propertyKey, {
+      configurable: true,
+      enumerable: true,
+      get: serviceGetter,
+    });
+
+    // find the service again when the object is moved to another parent
+    (target.constructor as typeof ManagedObject).addEventHandler(function (e) {
+      if (e instanceof ManagedParentChangeEvent && this[HIDDEN.REF_PROPERTY][linkPropId]) {
+        update(this);
+      }
+    });
   };
 }
 
 /** Managed service base class. Represents a service that can be referenced by other classes using the `@service` decorator (or `ManagedService.link` method) after registering the object with a known name. */
 export abstract class ManagedService extends ManagedObject {
+  /** Set to true during development to log warnings for properties decorated with `@service` that are read before any service has been registered with the same name, which may indicate a typo */
+  static devMode = false;
+
   /**
-   * Retrieve the currently active service with given name (case insensitive).
+   * Returns a typed token for given service name, which can be used instead of the service name itself with the `@service` decorator, `ManagedService.find`, and `Application.findService`, e.g. `const Auth = ManagedService.token<AuthService>("App.Auth")`.
+   * @note Tokens do not need to be unique: tokens with the same name (case insensitive) refer to the same service.
+   */
+  static token<T extends ManagedService = ManagedService>(name: string) {
+    if (!name) throw err(ERROR.Service_BlankName);
+    return new ManagedService.Token<T>(name);
+  }
+
+  /**
+   * Retrieve the currently active service with given name (case insensitive) or token (see `ManagedService.token`). If a scope object is specified, services that are registered within the scope of this object or its (managed) parent objects are returned first, if any.
    * @note Services may be registered and destroyed. To obtain a reference that is always up to date, use the `@service` decorator on a class property or the static `link` method.
    */
-  static find(name: string) {
-    let ucName = String(name).toUpperCase();
+  static find<T extends ManagedService>(
+    token: ManagedService.Token<T>,
+    scope?: ManagedObject
+  ): T | undefined;
+  static find(
+    name: string | ManagedService.Token,
+    scope?: ManagedObject
+  ): ManagedService | undefined;
+  static find(name: string | ManagedService.Token, scope?: ManagedObject) {
+    let ucName = _getUCName(name);
+    let scoped = scope && ServiceScope.findService(scope, ucName);
+    if (scoped) return scoped;
     let ref = ServiceContainer.instance.services.get(ucName);
     return ref && ref.get();
   }
 
+  /**
+   * Wait until all services with given name(s) have been registered and started (see `ManagedService.startAsync`). If a scope object is specified, services are found in the same way as `ManagedService.find`.
+   * @param timeout
+   *  The maximum time to wait (in milliseconds), if any; otherwise this method waits indefinitely for services that have not been registered yet
+   * @returns A promise that resolves when all services are ready, or is rejected as soon as any of the services failed to start, when the timeout expires, or when the scope object is destroyed
+   */
+  static whenReadyAsync(
+    names: string | ManagedService.Token | Array<string | ManagedService.Token>,
+    scope?: ManagedObject,
+    timeout?: number
+  ) {
+    let list = Array.isArray(names) ? names : [names];
+    return new Promise<void>((resolve, reject) => {
+      let timer: any;
+      let unwatch: (() => void) | undefined;
+      let pending: string[] = [];
+      const stop = () => {
+        if (timer) clearTimeout(timer);
+        if (unwatch) unwatch();
+      };
+      const check = () => {
+        pending = [];
+        for (let name of list) {
+          let service = ManagedService.find(name, scope);
+          if (service && service.serviceState === "failed") {
+            stop();
+            reject(err(ERROR.Service_Failed, String(name)));
+            return true;
+          }
+          if (!service || service.serviceState !== "ready") pending.push(String(name));
+        }
+        if (pending.length) return false;
+        stop();
+        resolve();
+        return true;
+      };
+      const remove = (error: Error) => {
+        stop();
+        _readyChecks = _readyChecks.filter(f => f !== check);
+        reject(error);
+      };
+      if (scope && !scope.managedState) {
+        reject(err(ERROR.Service_ScopeDestroyed, list.map(String).join(", ")));
+      } else if (!check()) {
+        _readyChecks.push(check);
+        if (timeout !== undefined) {
+          timer = setTimeout(() => {
+            remove(err(ERROR.Service_Timeout, pending.join(", ")));
+          }, timeout);
+        }
+        if (scope) {
+          // remove the check if the scope object (e.g. a dependent service) is destroyed first
+          unwatch = ServiceContainer.watchDestroyed(scope, () => {
+            remove(err(ERROR.Service_ScopeDestroyed, pending.join(", ")));
+          });
+        }
+      }
+    });
+  }
+
+  /** Returns health reports for all services that are currently registered globally (see `ManagedService.getHealthAsync`) */
+  static async getHealthReportAsync() {
+    let services: ManagedService[] = [];
+    ServiceContainer.instance.services.forEach((_name, ref) => {
+      let service = ref.get();
+      if (service) services.push(service);
+    });
+    return Promise.all(
+      services.map(service =>
+        service.getHealthAsync().catch(
+          (error): ManagedService.HealthReport => ({
+            name: service.name,
+            state: service.serviceState,
+            healthy: false,
+            error: String(error),
+          })
+        )
+      )
+    );
+  }
+
   /**
    * Adds a property to the prototype of given class, so that the property always references the last registered service with given name (case insensitive).
    * The value of the target property becomes undefined when the service is destroyed, and updates immediately when a new service is registered with the same name.
    * @note Changes and events can be observed by an observer, but only after the property has been *read at least once*.
    */
-  static link(serviceName: string, TargetClass: Function, propertyName: string) {
+  static link(
+    serviceName: string | ManagedService.Token,
+    TargetClass: Function,
+    propertyName: string
+  ) {
     if (!propertyName) throw err(ERROR.Service_NoName);
     service(serviceName)(TargetClass.prototype, propertyName);
   }
@@ -73,20 +376,154 @@ export abstract class ManagedService extends ManagedObject {
   /** The name of this service, set only once by the service constructor. The preferred format for service names is `Namespace.CamelCaseName`. */
   abstract readonly name: string;
 
-  /** Register this service, making it available through properties decorated with the `@service` decorator until the service object is destroyed (either directly using `.destroyManagedAsync()`, or when another service is registered with the same name) */
-  register() {
+  /** Names of other services that must be ready before this service is started (see `startAsync`); these services are found in the same way as `ManagedService.find`, i.e. including services in the same scope as this service, if any */
+  readonly dependencies?: Array<string | ManagedService.Token>;
+
+  /** The current state of this service (read only); the state changes to `ready` after registering the service, as soon as all dependencies are ready and `startAsync` has completed */
+  get serviceState() {
+    return this._serviceState;
+  }
+
+  /** The error that occurred while starting this service, if any */
+  get serviceError() {
+    return this._serviceError;
+  }
+
+  /** Returns a report about the health of this service for diagnostic purposes; may be overridden to include more details or perform additional checks */
+  async getHealthAsync(): Promise<ManagedService.HealthReport> {
+    let result: ManagedService.HealthReport = {
+      name: this.name,
+      state: this.serviceState,
+      healthy: this.serviceState === "ready",
+    };
+    if (this._serviceError) result.error = String(this._serviceError);
+    return result;
+  }
+
+  /**
+   * Register this service, making it available through properties decorated with the `@service` decorator until the service object is destroyed (either directly using `.destroyManagedAsync()`, or when another service is registered with the same name).
+   * If a scope object is specified (e.g. an `Application`, `AppActivity`, or `ViewComponent`), the service is only available to the scope object itself and its (managed) child objects, and takes precedence over services registered globally or in any parent scope. Scoped services are destroyed along with the scope object.
+   */
+  register(scope?: ManagedObject) {
     let ucName = String(this.name || "").toUpperCase();
     if (!ucName) throw err(ERROR.Service_BlankName);
-    let ref = ServiceContainer.instance.services.get(ucName);
-    if (ref) {
-      // set new target on the existing reference (destroying the old service)
-      ref.set(this);
+    _registeredNames[ucName] = true;
+    if (scope) {
+      ServiceScope.getScope(scope, true)!.services.set(ucName, this);
     } else {
-      ref = new ManagedReference(this)
-        .restrict(ManagedService as any)
-        .propagateEvents() as any;
-      ServiceContainer.instance.services.set(ucName, ref);
+      // set new target on the global reference (destroying the old service, if any)
+      ServiceContainer.getReference(ucName).set(this);
     }
+    this._startServiceAsync().catch(logUnhandledException);
     return this;
   }
+
+  /** Method that is called after this service has been registered and all dependencies are ready, can be overridden to perform asynchronous initialization; the service is not ready until the returned promise resolves, and fails if the promise is rejected */
+  protected async startAsync() {}
+
+  /** Method that is called before this service is destroyed (e.g. when another service is registered with the same name), but only if the service was started before; can be overridden to release any resources */
+  protected async stopAsync() {}
+
+  /** Stop the service (if needed) before it is destroyed */
+  protected async onManagedStateDestroyingAsync() {
+    let state = this._serviceState;
+    if (state === "starting" || state === "ready") {
+      this._setServiceState("stopping");
+      try {
+        await this.stopAsync();
+      } catch (err) {
+        logUnhandledException(err);
+      }
+    }
+    this._setServiceState("stopped");
+  }
+
+  /** Wait for dependencies and start this service, if not started before */
+  private async _startServiceAsync() {
+    if (this._serviceState !== "created") return;
+    this._setServiceState("registered");
+    try {
+      if (this.dependencies && this.dependencies.length) {
+        await ManagedService.whenReadyAsync(this.dependencies, this);
+      }
+      if (!this._updateServiceState("registered", "starting")) return;
+      await this.startAsync();
+      this._updateServiceState("starting", "ready");
+    } catch (err) {
+      // ignore errors after this service has been destroyed while waiting or starting
+      if (!this.managedState) return;
+      this._serviceError = err;
+      this._setServiceState("failed");
+      throw err;
+    }
+  }
+
+  /** Change the current service state only if the service is still in given state; returns true if changed */
+  private _updateServiceState(
+    from: ManagedService.ServiceState,
+    to: ManagedService.ServiceState
+  ) {
+    if (this._serviceState !== from) return false;
+    this._setServiceState(to);
+    return true;
+  }
+
+  /** Set the current service state, emit a change event, and check pending calls to `whenReadyAsync` */
+  private _setServiceState(state: ManagedService.ServiceState) {
+    this._serviceState = state;
+    if (this.managedState) this.emitChange();
+    _checkReady();
+  }
+
+  private _serviceState: ManagedService.ServiceState = "created";
+  private _serviceError?: any;
+}
+
+export namespace ManagedService {
+  /** Typed reference to a service name, see `ManagedService.token` */
+  export class Token<T extends ManagedService = ManagedService> {
+    /** Create a new token; use `ManagedService.token` instead */
+    constructor(name: string) {
+      this.name = name;
+    }
+
+    /** The service name */
+    readonly name: string;
+
+    /** Returns the service name */
+    toString() {
+      return this.name;
+    }
+
+    /** Unused property, only for type inference */
+    protected readonly _serviceType?: T;
+  }
+
+  /** Possible states of a service, see `ManagedService.serviceState` */
+  export type ServiceState =
+    | "created"
+    | "registered"
+    | "starting"
+    | "ready"
+    | "failed"
+    | "stopping"
+    | "stopped";
+
+  /** Report about the health of a service, see `ManagedService.getHealthAsync` */
+  export interface HealthReport {
+    /** The name of the service */
+    name: string;
+
+    /** The current state of the service */
+    state: ServiceState;
+
+    /** True if the service is currently healthy */
+    healthy: boolean;
+
+    /** A description of the last error, if any */
+    error?: string;
+
+    /** Additional details, if any */
+    details?: any;
+  }
 }
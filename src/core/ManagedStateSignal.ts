@@ -0,0 +1,73 @@
+import { err, ERROR } from "../errors";
+import * as util from "./util";
+
+/** Arbitrary name of property on errors that indicate a cancelled state transition */
+const CANCELLED_PROP = "^cancelled";
+
+/**
+ * Signal that indicates whether a managed state transition has been cancelled, similar to the DOM `AbortSignal` interface. An instance is passed to the `onManagedStateActivatingAsync` and `onManagedStateDeactivatingAsync` methods of a managed object, and aborted as soon as another transition is requested (e.g. deactivating the object while it is still being activated), so that any long-running work can be cancelled.
+ * @note Cancellation is cooperative: the transition only fails if the callback itself stops, e.g. by calling `throwIfAborted`. Otherwise, the next transition is started only after the current one has completed.
+ */
+export class ManagedStateSignal {
+  /** Returns true if given error indicates that a state transition was cancelled, i.e. it was thrown by `throwIfAborted`, or used to reject a transition that was replaced before it started */
+  static isCancellation(error: any) {
+    return !!error && !!error[CANCELLED_PROP];
+  }
+
+  /** @internal Returns a new error that indicates that a state transition was cancelled */
+  static createCancellation() {
+    let result = err(ERROR.Object_StateCancelled);
+    Object.defineProperty(result, CANCELLED_PROP, { value: true });
+    return result;
+  }
+
+  /** True if the transition has been cancelled (read only) */
+  get aborted() {
+    return !!this._reason;
+  }
+
+  /** The error that indicates that the transition has been cancelled, if any (read only) */
+  get reason() {
+    return this._reason;
+  }
+
+  /** Function that is called when the transition is cancelled, if any */
+  onabort?: (this: ManagedStateSignal) => void;
+
+  /** Add a function that is called when the transition is cancelled */
+  addEventListener(type: "abort", listener: (this: ManagedStateSignal) => void) {
+    if (type === "abort" && this._listeners.indexOf(listener) < 0) {
+      this._listeners.push(listener);
+    }
+  }
+
+  /** Remove a function that was added using `addEventListener` */
+  removeEventListener(type: "abort", listener: (this: ManagedStateSignal) => void) {
+    if (type === "abort") {
+      this._listeners = this._listeners.filter(f => f !== listener);
+    }
+  }
+
+  /** Throw an error if the transition has been cancelled, e.g. after each asynchronous step of a long-running operation */
+  throwIfAborted() {
+    if (this._reason) throw this._reason;
+  }
+
+  /** @internal Cancel the transition, and call all listeners (only once) */
+  abort() {
+    if (this._reason) return;
+    this._reason = ManagedStateSignal.createCancellation();
+    let listeners = this.onabort ? [this.onabort].concat(this._listeners) : this._listeners;
+    this._listeners = [];
+    for (let f of listeners) {
+      try {
+        f.call(this);
+      } catch (err) {
+        util.exceptionHandler(err);
+      }
+    }
+  }
+
+  private _reason?: Error;
+  private _listeners: Array<(this: ManagedStateSignal) => void> = [];
+}
@@ -0,0 +1,132 @@
+import { ManagedReferenceReleasedEvent } from "./ManagedEvent";
+import { ManagedObject, ManagedObjectConstructor } from "./ManagedObject";
+import { HIDDEN } from "./util";
+
+/** Native weak reference constructor, if supported */
+declare const WeakRef:
+  | undefined
+  | (new <T extends object>(target: T) => { deref(): T | undefined });
+
+/** Native finalization registry constructor, if supported */
+declare const FinalizationRegistry:
+  | undefined
+  | (new <T>(callback: (held: T) => void) => {
+      register(target: object, held: T, token?: object): void;
+      unregister(token: object): void;
+    });
+
+/** Registry that is used to find out when targets of weak references have been garbage collected, if supported */
+const _registry =
+  typeof FinalizationRegistry === "function"
+    ? new FinalizationRegistry<() => void>(release => release())
+    : undefined;
+
+/**
+ * Weak reference to a managed object, list, map, or other managed reference. Unlike `ManagedReference` (and the `weakRef` method of lists, maps, and references), a weak reference is _not_ included in the reference count of its target (see `ManagedObject.getReferenceCount`), and does not stop the target from being garbage collected.
+ * The target is released automatically when its reference count drops to zero, i.e. when the last other managed reference to the target is removed (checked asynchronously, so that the target is not released when it is moved from one list to another), when the target is destroyed, or when the target has been garbage collected (only if supported by the current platform). In each case, a `ManagedReferenceReleasedEvent` is emitted. This can be used to build caches that are cleaned up automatically.
+ * @note Weak references do not propagate events from their targets. On platforms that do not support native weak references, targets are held in memory until they are released or another object is referenced.
+ */
+export class ManagedWeakReference<
+  T extends ManagedObject = ManagedObject
+> extends ManagedObject {
+  /** Create a new weak reference that refers to given object */
+  constructor(target?: T) {
+    super();
+    if (target) this.set(target);
+  }
+
+  /**
+   * Ensure that referenced objects are instances of given class (or a sub class), both the current value and any new references set. Given class must be a sub class of `ManagedObject`.
+   * @exception Throws an error if referenced object is not an instance of given class, or of a sub class.
+   */
+  restrict<T extends ManagedObject>(
+    classType: ManagedObjectConstructor<T>
+  ): ManagedWeakReference<T> {
+    ManagedObject._validateReferenceAssignment(this, this.get(), classType);
+    this._managedClassRestriction = classType;
+    return this as any;
+  }
+  private _managedClassRestriction?: ManagedObjectConstructor<any>;
+
+  /** Returns the referenced object, or undefined if none (or if the target has been released) */
+  get(): T | undefined {
+    let target = this._ref && this._ref.deref();
+    return target && target.managedState ? target : undefined;
+  }
+
+  /**
+   * Remove the current reference, if any.
+   * @exception Throws an error if the reference itself has been destroyed (see `ManagedObject.managedState`).
+   */
+  clear() {
+    return this.set();
+  }
+
+  /**
+   * Set the current reference to given object, or managed list, map, or another reference.
+   * @note The target is released (asynchronously) if it is already being referenced, and the reference count then drops to zero. Targets without any other references are kept until they are destroyed or garbage collected.
+   * @exception Throws an error if the reference itself has been destroyed (see `ManagedObject.managedState`).
+   */
+  set(target?: T) {
+    // check given value first
+    ManagedObject._validateReferenceAssignment(this, target, this._managedClassRestriction);
+    if (target && target === this.get()) return this;
+
+    // unlink existing reference, if any
+    this._unlink();
+
+    // add a release callback to the target and keep a weak reference
+    if (target) {
+      let targetId = target.managedId;
+      if (!target[HIDDEN.WEAK_REFS_PROPERTY]) {
+        Object.defineProperty(target, HIDDEN.WEAK_REFS_PROPERTY, {
+          enumerable: false,
+          writable: true,
+          value: Object.create(null),
+        });
+      }
+      target[HIDDEN.WEAK_REFS_PROPERTY]![this.managedId] = (destroyed?: boolean) => {
+        this._release(targetId, destroyed ? "destroyed" : "unreferenced");
+      };
+      this._ref =
+        typeof WeakRef === "function" ? new WeakRef(target) : { deref: () => target };
+      if (_registry) {
+        _registry.register(target, () => this._release(targetId, "collected"), this);
+      }
+    }
+    this.emitChange();
+    return this;
+  }
+
+  /** Returns a JSON representation of the reference, i.e. an object with a `$ref` property that contains the managed ID of the referenced object, or undefined */
+  toJSON() {
+    let target = this.get();
+    return { "$ref": target ? target.managedId : undefined };
+  }
+
+  /** Remove the weak reference when destroyed */
+  protected async onManagedStateDestroyingAsync() {
+    this._unlink();
+  }
+
+  /** Remove the release callback from the current target, if any, and forget about the target */
+  private _unlink() {
+    let target = this._ref && this._ref.deref();
+    let callbacks = target && target[HIDDEN.WEAK_REFS_PROPERTY];
+    if (callbacks) delete callbacks[this.managedId];
+    if (_registry) _registry.unregister(this);
+    this._ref = undefined;
+  }
+
+  /** Forget about the target with given ID, and emit an event */
+  private _release(targetId: number, reason: ManagedReferenceReleasedEvent["reason"]) {
+    if (_registry) _registry.unregister(this);
+    this._ref = undefined;
+    if (this.managedState) {
+      this.emit(ManagedReferenceReleasedEvent, targetId, reason);
+    }
+  }
+
+  /** Weak reference to the target object, or a plain object that refers to the target object (if not supported) */
+  private _ref?: { deref(): T | undefined };
+}
@@ -0,0 +1,203 @@
+import { err, ERROR } from "../errors";
+import { ManagedChangeEvent, ManagedCoreEvent } from "./ManagedEvent";
+import { ManagedObject } from "./ManagedObject";
+import { ManagedReference } from "./ManagedReference";
+import { HIDDEN } from "./util";
+import * as util from "./util";
+
+/** Arbitrary prefix for the name of the (hidden) shadow property of a computed property, see `@computed` */
+const COMPUTED_SHADOW_PREFIX = "^o:cmp:";
+
+/** Arbitrary prefix for the name of the (hidden) property that contains the `ComputedValue` instance for a computed property */
+const COMPUTED_VALUE_PREFIX = "^o:cval:";
+
+/** Prefix for property IDs of reference links from a computed value to its dependencies */
+const COMPUTED_DEP_PROP_ID_PREFIX = HIDDEN.PROPERTY_ID_PREFIX + "*cmp:";
+
+/** Resolved promise used to evaluate computed values asynchronously */
+const RESOLVED = Promise.resolve();
+
+/**
+ * Computed property decorator: cache the result of the decorated getter, and update the cached value automatically when any of its inputs change.
+ * While the getter is evaluated, reads of managed properties (i.e. properties that are observed, bound, decorated with `@managed`, `@managedChild`, `@field`, or `@computed`) are tracked, and the value is evaluated again whenever a new value is assigned to any of these properties, or when a change event is emitted by any managed object (list, map, or record) that was read, including the targets of managed references. Plain properties that are not managed are _not_ tracked.
+ * The value is evaluated for the first time when it is read, or asynchronously after the object has been created. When the value changes after that, observers and bindings are updated, and the object emits a change event. Dependencies are no longer tracked after the object has been destroyed.
+ * @exception Throws an error if the decorated property does not have its own getter.
+ * @decorator
+ */
+export function computed(
+  targetPrototype: any,
+  propertyKey: string,
+  descriptor: PropertyDescriptor
+): PropertyDescriptor {
+  let getter = descriptor.get;
+  if (!getter) throw err(ERROR.Observe_ComputedGetter);
+  let shadowPropertyName = COMPUTED_SHADOW_PREFIX + propertyKey;
+  let valuePropertyName = COMPUTED_VALUE_PREFIX + propertyKey;
+
+  // use a (non-enumerable) chained shadow property to notify observers and dependent values
+  Object.defineProperty(targetPrototype, shadowPropertyName, {
+    configurable: true,
+    enumerable: false,
+    writable: true,
+    value: undefined,
+  });
+  util.defineChainableProperty(
+    targetPrototype,
+    shadowPropertyName,
+    false,
+    (_obj, _name, next) => {
+      return (value, event, topHandler) => {
+        next && next(value, event, topHandler);
+      };
+    }
+  );
+  const computedGetter = function (this: ManagedObject) {
+    let computedValue: ComputedValue = (this as any)[valuePropertyName];
+    if (!computedValue) {
+      computedValue = new ComputedValue(this, getter!, shadowPropertyName);
+      Object.defineProperty(this, valuePropertyName, { value: computedValue });
+    }
+    let value = computedValue.get();
+    util.trackRead(this, shadowPropertyName, value);
+    return value;
+  };
+  (computedGetter as any)[HIDDEN.GETTER_SHADOW_PROP] = shadowPropertyName;
+
+  // stop tracking dependencies when the object is destroyed
+  (targetPrototype.constructor as typeof ManagedObject).addEventHandler(function (e) {
+    let computedValue: ComputedValue | undefined = (this as any)[valuePropertyName];
+    if (e === ManagedCoreEvent.DESTROYED && computedValue) computedValue.stop();
+  });
+
+  // evaluate the value after construction, to initialize observers and bindings
+  (targetPrototype.constructor as typeof ManagedObject)._addInitializer(function (
+    this: ManagedObject
+  ) {
+    RESOLVED.then(() => {
+      try {
+        if (this.managedState) (this as any)[propertyKey];
+      } catch (err) {
+        util.exceptionHandler(err);
+      }
+    });
+  });
+  return { ...descriptor, get: computedGetter };
+}
+
+/** Helper class that contains the cached value of a computed property for a single object, and keeps track of its dependencies */
+class ComputedValue extends ManagedObject {
+  constructor(owner: ManagedObject, getter: () => any, shadowPropertyName: string) {
+    super();
+    this._owner = owner;
+    this._getter = getter;
+    this._shadowPropertyName = shadowPropertyName;
+  }
+
+  /** Returns the current value, evaluating the getter if needed */
+  get() {
+    if (!this._evaluated) this._evaluate();
+    return this._value;
+  }
+
+  /** Remove all dependencies, and stop evaluating the getter automatically (after the owner has been destroyed) */
+  stop() {
+    this._unlink();
+    this._stopped = true;
+  }
+
+  /** Evaluate the getter again, and notify observers if the value changed */
+  private _update() {
+    if (this._updating || this._stopped) return;
+    if (!this._owner.managedState) {
+      this.stop();
+      return;
+    }
+    this._updating = true;
+    try {
+      this._evaluate();
+    } catch (err) {
+      util.exceptionHandler(err);
+    } finally {
+      this._updating = false;
+    }
+  }
+
+  /** Evaluate the getter while tracking dependencies (unless stopped) */
+  private _evaluate() {
+    this._unlink();
+    if (this._stopped || !this._owner.managedState) {
+      this._stopped = true;
+      this._value = this._getter.call(this._owner);
+      this._evaluated = true;
+      return;
+    }
+    let seen: { [id: string]: boolean } = Object.create(null);
+    let objects: ManagedObject[] = [];
+    const addObject = (object: any) => {
+      while (object instanceof ManagedObject && object !== this._owner) {
+        if (seen[object.managedId]) return;
+        seen[object.managedId] = true;
+        objects.push(object);
+        object = object instanceof ManagedReference ? object.get() : undefined;
+      }
+    };
+    let value: any;
+    try {
+      value = util.trackReads(
+        () => this._getter.call(this._owner),
+        (obj, propertyKey, propertyValue) => {
+          let id = (obj.managedId || "") + ":" + propertyKey;
+          if (!seen[id]) {
+            seen[id] = true;
+            this._unwatch.push(util.watchProperty(obj, propertyKey, () => this._update()));
+          }
+          addObject(propertyValue);
+        }
+      );
+    } finally {
+      // listen for change events on all managed objects that were read
+      for (let object of objects) {
+        ManagedObject._createRefLink(
+          this,
+          object,
+          COMPUTED_DEP_PROP_ID_PREFIX + object.managedId,
+          e => {
+            if (e instanceof ManagedChangeEvent) this._update();
+          },
+          () => {
+            RESOLVED.then(() => this._update());
+          }
+        );
+      }
+    }
+    let changed = !this._evaluated || value !== this._value;
+    let notify = this._evaluated && changed;
+    this._evaluated = true;
+    this._value = value;
+    if (changed) (this._owner as any)[this._shadowPropertyName] = value;
+    if (notify) this._owner.emitChange();
+  }
+
+  /** Remove all dependencies */
+  private _unlink() {
+    this._unwatch.forEach(f => f());
+    this._unwatch = [];
+    let refs = this[HIDDEN.REF_PROPERTY];
+    for (let propId in refs) {
+      if (
+        propId.slice(0, COMPUTED_DEP_PROP_ID_PREFIX.length) === COMPUTED_DEP_PROP_ID_PREFIX
+      ) {
+        ManagedObject._discardRefLink(refs[propId]);
+      }
+    }
+  }
+
+  private readonly _owner: ManagedObject;
+  private readonly _getter: () => any;
+  private readonly _shadowPropertyName: string;
+  private _unwatch: Array<() => void> = [];
+  private _evaluated?: boolean;
+  private _updating?: boolean;
+  private _stopped?: boolean;
+  private _value: any;
+}
@@ -0,0 +1,96 @@
+import { err, ERROR } from "../errors";
+import { ManagedObject } from "./ManagedObject";
+import { ManagedRecord, ManagedRecordConstructor } from "./ManagedRecord";
+import * as util from "./util";
+
+/**
+ * Record property decorator: declare the decorated property as a field of given type, with given validation options. The field type and options are added to the static `fields` property of the record class, which is used by `ManagedRecord.serialize` and `ManagedRecord.deserialize`.
+ * Every time a new value is assigned (or when a referenced list or map changes), the field value is validated and the `errors` object of the record is updated; a change event is emitted when the field becomes valid or invalid.
+ * Fields that refer to managed objects (records, lists, and maps) are also turned into managed child references (see `@managedChild`). Reference fields are turned into regular managed references instead (see `@managed`), so that the referenced record does not become a child object.
+ * @note Shorthand functions are available for common field types, e.g. `@field.string({ required: true })` and `@field.list(MyRecord)`.
+ * @decorator
+ */
+export function field(
+  type: ManagedRecord.FieldType,
+  options?: ManagedRecord.FieldOptions
+): PropertyDecorator {
+  return function (targetPrototype, propertyKey) {
+    if (!(targetPrototype instanceof ManagedRecord)) {
+      throw err(ERROR.Record_FieldDecorator, propertyKey);
+    }
+    let p = propertyKey as string;
+
+    // add field schema to (own copy of) static fields object
+    let Target = targetPrototype.constructor as typeof ManagedRecord;
+    if (!Object.prototype.hasOwnProperty.call(Target, "fields")) {
+      let fields: ManagedRecord.FieldMap = Object.create(null);
+      for (let name in Target.fields) fields[name] = Target.fields[name];
+      Target.fields = fields;
+    }
+    Target.fields![p] = { ...options, type };
+
+    // turn managed object fields into child references, and validate on change
+    if (typeof type !== "string") {
+      let isChild = typeof type === "function" || !("ref" in type);
+      ManagedObject.createManagedReferenceProperty(targetPrototype, p as any, isChild);
+    }
+    util.defineChainableProperty<ManagedRecord>(
+      targetPrototype,
+      p as any,
+      false,
+      (obj, name, next) => (value, event, topHandler) => {
+        next && next(value, event, topHandler);
+        obj._validateField(name as string);
+      }
+    );
+  };
+}
+
+export namespace field {
+  /** Record property decorator: declare a string field, see `@field` */
+  export function string(options?: ManagedRecord.FieldOptions) {
+    return field("string", options);
+  }
+
+  /** Record property decorator: declare a number field, see `@field` */
+  export function number(options?: ManagedRecord.FieldOptions) {
+    return field("number", options);
+  }
+
+  /** Record property decorator: declare a boolean field, see `@field` */
+  export function boolean(options?: ManagedRecord.FieldOptions) {
+    return field("boolean", options);
+  }
+
+  /** Record property decorator: declare a field that contains a child record of given type, see `@field` */
+  export function record(
+    RecordClass: ManagedRecordConstructor,
+    options?: ManagedRecord.FieldOptions
+  ) {
+    return field(RecordClass, options);
+  }
+
+  /** Record property decorator: declare a field that contains a `ManagedList` of records of given type, see `@field` */
+  export function list(
+    RecordClass: ManagedRecordConstructor,
+    options?: ManagedRecord.FieldOptions
+  ) {
+    return field({ list: RecordClass }, options);
+  }
+
+  /** Record property decorator: declare a field that contains a `ManagedMap` of records of given type, see `@field` */
+  export function map(
+    RecordClass: ManagedRecordConstructor,
+    options?: ManagedRecord.FieldOptions
+  ) {
+    return field({ map: RecordClass }, options);
+  }
+
+  /** Record property decorator: declare a field that contains a `ManagedReference` to a record of given type, see `@field` */
+  export function ref(
+    RecordClass: ManagedRecordConstructor,
+    options?: ManagedRecord.FieldOptions
+  ) {
+    return field({ ref: RecordClass }, options);
+  }
+}
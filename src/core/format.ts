@@ -34,16 +34,47 @@ export function sprintf(format: string, args: any[]) {
   );
 }
 
+/** Pattern that matches C-style sprintf format specs (excluding the `%` sign) */
+const FORMAT_SPEC = /^([-0+ ]+)?(\d+)?(\.\d+)?([%diufFeEgGxXsc])$/;
+
+/** Function that transforms a value for use with binding filters and `strf` placeholders, see `registerFilter` */
+export type FilterFunction = (value: any, ...args: any[]) => any;
+
+/**
+ * Register a filter function with given name, which can be used by bindings (e.g. `bind("x|myFilter:arg")`, `Binding.addFilter("myFilter")`, or binding expressions such as `bind("myFilter(x, 'arg')")`) as well as `strf` placeholders (e.g. `strf("%{myFilter:arg}", x)`). The filter function is called with the value as its first argument, followed by any arguments that are specified after the filter name, separated by colons (as strings), or as additional arguments in a binding expression.
+ * @note Existing filters with the same name, including built-in filters, are replaced.
+ * @exception Throws an error if the name is blank or contains any of the characters `: | { } %` or whitespace.
+ */
+export function registerFilter(name: string, filter: FilterFunction) {
+  if (!name || /[:|{}%\s]/.test(name) || typeof filter !== "function") {
+    throw err(ERROR.Format_Type, name);
+  }
+  _filters[name] = filter;
+}
+
+/** @internal Returns the filter function with given name, if any */
+export function getFilter(name: string): FilterFunction | undefined {
+  return Object.prototype.hasOwnProperty.call(_filters, name) ? _filters[name] : undefined;
+}
+
+/** @internal Throws an error if given format (part after %-sign of sprintf formatter, or binding filter) is not a valid format spec, and does not refer to a registered filter */
+export function validateFormat(format: string) {
+  if (format[0] === "{") format = format.slice(1, -1);
+  if (!FORMAT_SPEC.test(format) && !getFilter(format.split(":")[0])) {
+    throw err(ERROR.Format_Type, format);
+  }
+}
+
 /** @internal Format given value according to spec (part after %-sign of sprintf formatter, e.g. s, 08i, {uc}, {local:date}); does NOT necessarily return a string value */
 export function formatValue(format: string, value: any): any {
   if (format[0] === "{") format = format.slice(1, -1);
 
   // parse formatting spec or use formatter function
-  let match = format.match(/^([-0+ ]+)?(\d+)?(\.\d+)?([%diufFeEgGxXsc])$/);
+  let match = format.match(FORMAT_SPEC);
   if (!match) {
     // use formatter function from lookup table
     let split = format.split(":");
-    let formatter = _filters[split.shift()!];
+    let formatter = getFilter(split.shift()!);
     if (!formatter) {
       logUnhandledException(err(ERROR.Format_Type, format));
       return "???";
@@ -174,7 +205,7 @@ function _alignRight(str: string, width: number, prefix: string) {
 }
 
 /** List of filter functions */
-const _filters: { [id: string]: (v: any, ...args: any[]) => any } = {
+const _filters: { [id: string]: FilterFunction } = {
   "_": () => undefined,
   "!": v => !v,
   "not?": v => !v,
@@ -188,6 +219,11 @@ const _filters: { [id: string]: (v: any, ...args: any[]) => any } = {
   "lc": _lcFilter,
   "uniq": _uniqueFilter,
   "pluck": _pluckFilter,
+  "count": _countFilter,
+  "sum": _sumFilter,
+  "where": _whereFilter,
+  "first": _firstFilter,
+  "last": _lastFilter,
   "local": _i18nFilter,
 };
 
@@ -233,6 +269,39 @@ function _pluckFilter(d: any, p: string) {
   }
   return (d as any[]).map(v => v && v[p]);
 }
+function _countFilter(d: any) {
+  let a = _toArray(d);
+  return a ? a.length : d == undefined ? 0 : 1;
+}
+function _sumFilter(d: any, p?: string) {
+  let a = _toArray(d);
+  if (!a) return d;
+  return a.reduce((sum: number, v) => sum + (+(p ? v && v[p] : v) || 0), 0);
+}
+function _whereFilter(d: any, p: string, value?: string) {
+  let a = _toArray(d);
+  if (!a) return d;
+  return a.filter(v => {
+    let w = v && v[p];
+    return value === undefined ? !!w : String(w) === value;
+  });
+}
+function _firstFilter(d: any) {
+  let a = _toArray(d);
+  return a ? a[0] : d;
+}
+function _lastFilter(d: any) {
+  let a = _toArray(d);
+  return a ? a[a.length - 1] : d;
+}
+function _toArray(d: any): any[] | undefined {
+  if (Array.isArray(d)) return d;
+  if (d && d.toArray) {
+    d = d.toArray();
+    if (Array.isArray(d)) return d;
+  }
+  return undefined;
+}
 function _i18nFilter() {
   let i18n = I18nService.get();
   return i18n ? i18n.format.apply(i18n, arguments as any) : "???";
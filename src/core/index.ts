@@ -1,12 +1,21 @@
 export * from "./Binding";
 export * from "./Component";
+export * from "./computed";
+export * from "./field";
+export { registerFilter, FilterFunction } from "./format";
 export * from "./I18nService";
 export * from "./ManagedEvent";
+export * from "./ManagedHistory";
+export * from "./ManagedInspector";
 export * from "./ManagedList";
 export * from "./ManagedMap";
 export * from "./ManagedObject";
 export * from "./ManagedRecord";
 export * from "./ManagedReference";
 export * from "./ManagedService";
+export * from "./ManagedStateSignal";
+export * from "./ManagedWeakReference";
 export * from "./observe";
+export * from "./observeDeep";
+export * from "./snapshot";
 export * from "./UnhandledErrorEmitter";
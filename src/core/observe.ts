@@ -1,5 +1,10 @@
 import { err, ERROR } from "../errors";
-import { ManagedChangeEvent, ManagedEvent, ManagedParentChangeEvent } from "./ManagedEvent";
+import {
+  ManagedChangeEvent,
+  ManagedCoreEvent,
+  ManagedEvent,
+  ManagedParentChangeEvent,
+} from "./ManagedEvent";
 import { ManagedObject, ManagedObjectConstructor, ManagedState } from "./ManagedObject";
 import { HIDDEN } from "./util";
 import * as util from "./util";
@@ -13,6 +18,12 @@ const FN_OBS_NAME_PROP = "^o:prop";
 /** Arbitrary name of property on observer function to contain rate limit in ms */
 const FN_RATE_LIMIT_PROP = "^o:rate";
 
+/** Arbitrary name of property on observer function to mark methods that are decorated with `debounce`, `throttle`, or `serialize` */
+const FN_SCHEDULE_PROP = "^o:sched";
+
+/** Prefix for name of (hidden) property on observer instances to contain the scheduling state of decorated methods, see `debounce`, `throttle`, and `serialize` */
+const OBS_SCHEDULE_PROP_PREFIX = "^o:sched:";
+
 /** Arbitrary name of property on observer class to contain observer UID, as well as prefix for name of (hidden) property on observer observed objects to contain instance references */
 const OBS_UID_PROP = "^o:uid";
 
@@ -124,6 +135,131 @@ export function rateLimit(n: number): MethodDecorator {
   };
 }
 
+/**
+ * Observer method decorator: postpone invocation of the decorated (synchronous or asynchronous) observer method until given number of milliseconds have passed without any further calls. The method is then invoked only once, with the arguments of the last call.
+ * Pending invocations are cancelled when the observed object is destroyed.
+ * @note This decorator is intended for use on methods that are part of an observer class, see `ManagedObject.addObserver()`. Errors thrown (or returned as rejected promises) by the decorated method are handled by the global exception handler.
+ * @decorator
+ */
+export function debounce(ms: number): MethodDecorator {
+  return _scheduleMethod((state, invoke, args) => {
+    state.args = args;
+    if (state.timer) clearTimeout(state.timer);
+    state.timer = setTimeout(() => {
+      state.timer = undefined;
+      invoke(state.args!);
+      state.args = undefined;
+    }, ms);
+  });
+}
+
+/**
+ * Observer method decorator: invoke the decorated (synchronous or asynchronous) observer method at most once within given number of milliseconds.
+ * @param options
+ *  `leading`: if true (default), the method is invoked immediately on the first call, before waiting; `trailing`: if true (default), the method is invoked again after waiting, with the arguments of the last call that was skipped, if any; pending invocations are cancelled when the observed object is destroyed
+ * @note This decorator is intended for use on methods that are part of an observer class, see `ManagedObject.addObserver()`. Errors thrown (or returned as rejected promises) by the decorated method are handled by the global exception handler.
+ * @decorator
+ */
+export function throttle(
+  ms: number,
+  options: { leading?: boolean; trailing?: boolean } = {}
+): MethodDecorator {
+  let leading = options.leading !== false;
+  let trailing = options.trailing !== false;
+  return _scheduleMethod((state, invoke, args) => {
+    const wait = () => {
+      state.timer = setTimeout(() => {
+        state.timer = undefined;
+        let last = state.args;
+        state.args = undefined;
+        if (trailing && last) {
+          invoke(last);
+          wait();
+        }
+      }, ms);
+    };
+    if (state.timer) {
+      state.args = args;
+    } else {
+      if (leading) invoke(args);
+      else state.args = args;
+      wait();
+    }
+  });
+}
+
+/**
+ * Observer method decorator: queue invocations of the decorated (asynchronous) observer method, so that each invocation only starts after the promise returned by the previous invocation has been settled.
+ * Queued invocations that have not started yet are cancelled when the observed object is destroyed.
+ * @note This decorator is intended for use on methods that are part of an observer class, see `ManagedObject.addObserver()`. Errors thrown (or returned as rejected promises) by the decorated method are handled by the global exception handler.
+ * @decorator
+ */
+export function serialize(): MethodDecorator {
+  return _scheduleMethod((state, invoke, args) => {
+    let generation = state.generation;
+    let next = (state.queue || RESOLVED).then(() => {
+      if (state.generation === generation) return invoke(args);
+    });
+    state.queue = next;
+    next.then(() => {
+      if (state.queue === next) state.queue = undefined;
+    });
+    return next;
+  });
+}
+
+/** Scheduling state of a single decorated method on a single observer instance */
+interface ScheduleState {
+  timer?: any;
+  args?: any[];
+  queue?: Promise<void>;
+  generation?: number;
+}
+
+/** Helper function to create a method decorator that replaces the decorated method with a function that schedules invocations using given function, with separate state for each observer instance */
+function _scheduleMethod(
+  schedule: (
+    state: ScheduleState,
+    invoke: (args: any[]) => Promise<void>,
+    args: any[]
+  ) => Promise<void> | void
+): MethodDecorator {
+  return function (_targetPrototype, propertyKey, descriptor: PropertyDescriptor) {
+    let f = descriptor.value;
+    if (typeof f !== "function") throw TypeError();
+    let stateProp = OBS_SCHEDULE_PROP_PREFIX + String(propertyKey);
+    let g: any = function (this: any, ...args: any[]) {
+      let state: ScheduleState = this[stateProp];
+      if (!state) {
+        Object.defineProperty(this, stateProp, {
+          enumerable: false,
+          configurable: true,
+          writable: true,
+          value: (state = {}),
+        });
+      }
+      const invoke = (invokeArgs: any[]) => {
+        try {
+          return Promise.resolve(f.apply(this, invokeArgs)).catch(util.exceptionHandler);
+        } catch (err) {
+          util.exceptionHandler(err);
+          return RESOLVED;
+        }
+      };
+      return schedule(state, invoke, args);
+    };
+
+    // use observed property names and rate limit set by other decorators,
+    // which are always set on the original method
+    for (let p of [FN_OBS_NAME_PROP, FN_RATE_LIMIT_PROP]) {
+      Object.defineProperty(g, p, { get: () => f[p] });
+    }
+    g[FN_SCHEDULE_PROP] = true;
+    descriptor.value = g;
+    return descriptor;
+  } as MethodDecorator;
+}
+
 /** Helper function to add handlers from an observer class to a target class */
 function _addObserverHandlers(Target: Function, Observer: { new (_instance: any): any }) {
   /** helper function to add an event handler for the current observer */
@@ -149,10 +285,12 @@ function _addObserverHandlers(Target: Function, Observer: { new (_instance: any)
 
   // go through all properties on the prototype
   let targetProto = Target.prototype;
+  let hasScheduled = false;
   for (let name of Object.getOwnPropertyNames(Observer.prototype)) {
     if (!Object.prototype.hasOwnProperty.call(Observer.prototype, name)) continue;
     let f = (Observer.prototype as any)[name];
     if (typeof f === "function") {
+      if (f[FN_SCHEDULE_PROP]) hasScheduled = true;
       if (Array.isArray(f[FN_OBS_NAME_PROP])) {
         // define an observable property using hinted property name
         let isAsync = name.slice(-5) === "Async";
@@ -254,6 +392,28 @@ function _addObserverHandlers(Target: Function, Observer: { new (_instance: any)
       }
     }
   }
+
+  // cancel pending invocations of scheduled methods when the object is destroyed
+  if (hasScheduled) {
+    (Target as typeof ManagedObject).addEventHandler(function (e) {
+      if (e === ManagedCoreEvent.DESTROYED) _cancelScheduled(this, Observer);
+    });
+  }
+}
+
+/** Helper function to clear all timers, pending arguments, and queued invocations of scheduled methods (see `debounce`, `throttle`, and `serialize`) on the observer instance for given object, if any */
+function _cancelScheduled(obj: any, Observer: { new (instance: any): any }) {
+  let observer = obj[OBS_UID_PROP + (Observer as any)[OBS_UID_PROP]];
+  if (!observer || observer === true) return;
+  for (let p of Object.getOwnPropertyNames(observer)) {
+    if (p.slice(0, OBS_SCHEDULE_PROP_PREFIX.length) !== OBS_SCHEDULE_PROP_PREFIX) continue;
+    let state: ScheduleState = observer[p];
+    if (state.timer) clearTimeout(state.timer);
+    state.timer = undefined;
+    state.args = undefined;
+    state.queue = undefined;
+    state.generation = (state.generation || 0) + 1;
+  }
 }
 
 /** Helper function to add a hidden event handler on a managed object class prototype */
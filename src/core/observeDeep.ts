@@ -0,0 +1,246 @@
+import { ManagedChangeEvent } from "./ManagedEvent";
+import { ManagedList } from "./ManagedList";
+import { ManagedMap } from "./ManagedMap";
+import { ManagedObject } from "./ManagedObject";
+import { ManagedRecord } from "./ManagedRecord";
+import { ManagedReference } from "./ManagedReference";
+import { HIDDEN } from "./util";
+import * as util from "./util";
+
+/** Prefix for property IDs of reference links from a deep observer to observed objects */
+const OBSERVED_PROP_ID_PREFIX = HIDDEN.PROPERTY_ID_PREFIX + "*deep:";
+
+/**
+ * Observe all changes to given record, as well as all of its child records, lists, and maps (see `@managedChild`), recursively. The handler is called for each change, with an object that describes the change along with its path relative to the root record, e.g. `orders/3/lines/0/qty`.
+ * Changes to lists and maps are reported automatically, as well as new values of managed properties of records (e.g. properties decorated with `@managed` or `@field`); other property values of records are compared when the record itself emits a change event (see `ManagedObject.emitChange`).
+ * @returns An observer instance, which can be used to stop observing changes (see `DeepObserver.stop`)
+ */
+export function observeDeep(root: ManagedRecord, handler: (change: DeepChange) => void) {
+  return new DeepObserver(root, handler);
+}
+
+/** Describes a single change that was observed using `observeDeep` */
+export interface DeepChange {
+  /** The type of change: a record property or map key was set, or an object was added to, removed from, or moved within a list or map */
+  readonly type: "set" | "add" | "remove" | "move";
+
+  /** Path of the changed property, list index, or map key relative to the root record, with segments separated by slashes (escaped in the same way as JSON pointers, i.e. `~0` for `~` and `~1` for `/`) */
+  readonly path: string;
+
+  /** The record, list, or map that was changed */
+  readonly object: ManagedObject;
+
+  /** The property name, list index, or map key that was changed (the new index for objects that were moved within a list) */
+  readonly key: string;
+
+  /** The previous value, if any */
+  readonly oldValue?: any;
+
+  /** The new value, if any */
+  readonly newValue?: any;
+}
+
+/** Observer that reports changes to a record and all of its child objects, see `observeDeep` */
+export class DeepObserver extends ManagedObject {
+  /** Create a new observer for given root record; use `observeDeep` instead */
+  constructor(root: ManagedRecord, handler: (change: DeepChange) => void) {
+    super();
+    this.root = root;
+    this._handler = handler;
+    this._scan();
+  }
+
+  /** The root record (read only) */
+  readonly root: ManagedRecord;
+
+  /** True if changes are currently being observed, i.e. `stop` has not been called */
+  get observing() {
+    return !this._stopped;
+  }
+
+  /** Stop observing changes */
+  stop() {
+    this._stopped = true;
+    this._scan();
+  }
+
+  /** Handle a change event on given observed object */
+  private _handleChange(object: ManagedObject) {
+    let path = this._paths[object.managedId];
+    let oldValues = this._snapshots[object.managedId];
+    let newValues = (this._snapshots[object.managedId] = getShallowSnapshot(object));
+    let changes: DeepChange[] = [];
+    const add = (type: DeepChange["type"], key: string, oldValue?: any, newValue?: any) => {
+      let keyPath = escapePathSegment(key);
+      changes.push({
+        type,
+        path: path ? path + "/" + keyPath : keyPath,
+        object,
+        key,
+        oldValue,
+        newValue,
+      });
+    };
+    if (object instanceof ManagedList) {
+      let oldList: ManagedObject[] = oldValues;
+      let newList: ManagedObject[] = newValues;
+      let oldIndex = _indexById(oldList);
+      let newIndex = _indexById(newList);
+      oldList.forEach((o, i) => {
+        if (!(o.managedId in newIndex)) add("remove", String(i), o);
+      });
+      newList.forEach((o, i) => {
+        if (!(o.managedId in oldIndex)) add("add", String(i), undefined, o);
+      });
+
+      // find objects that were moved relative to other existing objects
+      let oldOrder = oldList.filter(o => o.managedId in newIndex);
+      let newOrder = newList.filter(o => o.managedId in oldIndex);
+      newOrder.forEach((o, i) => {
+        if (oldOrder[i] !== o) add("move", String(newIndex[o.managedId]), o, o);
+      });
+    } else {
+      for (let key in oldValues) {
+        if (!(key in newValues))
+          add(object instanceof ManagedMap ? "remove" : "set", key, oldValues[key]);
+      }
+      for (let key in newValues) {
+        if (!(key in oldValues)) {
+          add(object instanceof ManagedMap ? "add" : "set", key, undefined, newValues[key]);
+        } else if (oldValues[key] !== newValues[key]) {
+          add("set", key, oldValues[key], newValues[key]);
+        }
+      }
+    }
+    if (changes.length) {
+      this._scan();
+      for (let change of changes) {
+        try {
+          this._handler(change);
+        } catch (err) {
+          util.exceptionHandler(err);
+        }
+      }
+    }
+  }
+
+  /** Find all objects that are part of the record tree along with their paths, and start or stop observing objects */
+  private _scan() {
+    let refs = this[HIDDEN.REF_PROPERTY];
+    let paths: { [managedId: number]: string } = Object.create(null);
+    const visit = (object: ManagedObject, path: string) => {
+      if (!object || !object.managedState || object.managedId in paths) return;
+      paths[object.managedId] = path;
+      let propId = OBSERVED_PROP_ID_PREFIX + object.managedId;
+      if (!refs[propId]) {
+        this._snapshots[object.managedId] = getShallowSnapshot(object);
+        ManagedObject._createRefLink(this, object, propId, e => {
+          if (e instanceof ManagedChangeEvent) this._handleChange(object);
+        });
+        if (object instanceof ManagedRecord) {
+          this._watchers[object.managedId] = Object.keys(getRecordValues(object)).map(p =>
+            util.watchProperty(object, p, () => this._handleChange(object))
+          );
+        }
+      }
+      for (let child of getChildEntries(object)) {
+        let key = child.key === undefined ? "" : escapePathSegment(child.key);
+        visit(child.object, path && key ? path + "/" + key : path || key);
+      }
+    };
+    if (!this._stopped) visit(this.root, "");
+    this._paths = paths;
+
+    // stop observing objects that are no longer part of the tree
+    for (let propId in refs) {
+      let ref = refs[propId];
+      if (
+        ref &&
+        propId.slice(0, OBSERVED_PROP_ID_PREFIX.length) === OBSERVED_PROP_ID_PREFIX
+      ) {
+        let object: ManagedObject = ref.b;
+        if (!(object.managedId in paths)) {
+          delete this._snapshots[object.managedId];
+          (this._watchers[object.managedId] || []).forEach(unwatch => unwatch());
+          delete this._watchers[object.managedId];
+          ManagedObject._discardRefLink(ref);
+        }
+      }
+    }
+  }
+
+  private readonly _handler: (change: DeepChange) => void;
+  private _stopped?: boolean;
+
+  /** Current paths of all observed objects, by managed ID */
+  private _paths: { [managedId: number]: string } = Object.create(null);
+
+  /** Last known state of all observed objects, by managed ID */
+  private _snapshots: { [managedId: number]: any } = Object.create(null);
+
+  /** Functions that stop watching managed properties of observed records (see `util.watchProperty`), by managed ID */
+  private _watchers: { [managedId: number]: Array<() => void> } = Object.create(null);
+}
+
+/** @internal Returns true if given parent object has a managed child reference to given object */
+export function isChildObject(parent: ManagedObject, object: any) {
+  if (!(object instanceof ManagedObject)) return false;
+  let ref = object[HIDDEN.REF_PROPERTY].parent;
+  return !!ref && ref.a === parent;
+}
+
+/** @internal Returns a list of all child objects of given object, along with their property names, list indices, or map keys (none for the target of a managed reference) */
+export function getChildEntries(object: ManagedObject) {
+  let result: Array<{ key?: string; object: ManagedObject }> = [];
+  if (object instanceof ManagedList) {
+    object.toArray().forEach((o, i) => {
+      if (isChildObject(object, o)) result.push({ key: String(i), object: o });
+    });
+  } else if (object instanceof ManagedMap) {
+    object.forEach((key, o) => {
+      if (isChildObject(object, o)) result.push({ key, object: o });
+    });
+  } else if (object instanceof ManagedReference) {
+    let target = object.get();
+    if (target && isChildObject(object, target)) result.push({ object: target });
+  } else {
+    for (let p in object) {
+      let v = (object as any)[p];
+      if (isChildObject(object, v)) result.push({ key: p, object: v });
+    }
+  }
+  return result;
+}
+
+/** @internal Returns the values of all (own, public) properties of given record, i.e. the same properties that are serialized (see `ManagedRecord.serialize`); optionally excluding managed child objects */
+export function getRecordValues(record: ManagedRecord, excludeChildren?: boolean) {
+  let result: { [p: string]: any } = Object.create(null);
+  for (let p in record) {
+    if (!record.hasOwnProperty(p) || p[0] === "_" || p === "managedId") continue;
+    let v = (record as any)[p];
+    if (!excludeChildren || !isChildObject(record, v)) result[p] = v;
+  }
+  return result;
+}
+
+/** @internal Returns a shallow snapshot of the current state of given object: an array of the objects in a list, the objects in a map by key, or the property values of a record (see `getRecordValues`) */
+export function getShallowSnapshot(object: ManagedObject, excludeChildren?: boolean): any {
+  if (object instanceof ManagedList) return object.toArray();
+  if (object instanceof ManagedMap) return object.toObject();
+  if (object instanceof ManagedRecord) return getRecordValues(object, excludeChildren);
+  return Object.create(null);
+}
+
+/** Helper function to find the index of each object in given array, by managed ID */
+function _indexById(objects: ManagedObject[]) {
+  let result: { [managedId: number]: number } = Object.create(null);
+  objects.forEach((o, i) => {
+    result[o.managedId] = i;
+  });
+  return result;
+}
+
+/** @internal Returns given path segment, escaped in the same way as JSON pointers */
+export function escapePathSegment(key: string) {
+  return key.replace(/~/g, "~0").replace(/\//g, "~1");
+}
@@ -0,0 +1,398 @@
+import { ERROR, err } from "../errors";
+import { ManagedList } from "./ManagedList";
+import { ManagedMap } from "./ManagedMap";
+import { ManagedObject } from "./ManagedObject";
+import { ManagedRecord, ManagedRecordConstructor } from "./ManagedRecord";
+import { ManagedReference } from "./ManagedReference";
+import {
+  escapePathSegment,
+  getChildEntries,
+  getRecordValues,
+  isChildObject,
+} from "./observeDeep";
+
+/** Immutable snapshot of the state of a managed record, list, map, or reference, along with all of its child objects; see `takeSnapshot` */
+export interface ManagedSnapshot {
+  /** The managed ID of the original object */
+  readonly managedId: number;
+
+  /** The type of object; `object` is used for objects that are not child objects, which are included by managed ID only */
+  readonly kind: "record" | "list" | "map" | "reference" | "object";
+
+  /** The class of the original record, for snapshots of records only */
+  readonly recordClass?: ManagedRecordConstructor;
+
+  /** Property values of records (see `ManagedRecord.serialize`), objects in maps by key, or the target of a reference (as `target`) */
+  readonly properties?: { readonly [key: string]: SnapshotValue };
+
+  /** Objects in a list, for snapshots of lists only */
+  readonly items?: ReadonlyArray<ManagedSnapshot>;
+}
+
+/** A value that is included in a snapshot, see `ManagedSnapshot` */
+export type SnapshotValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | ManagedSnapshot
+  | ReadonlyArray<SnapshotValue>;
+
+/** Structural difference between two snapshots, see `diffSnapshots` */
+export interface SnapshotDiff {
+  /** Objects that were added to lists */
+  readonly added: ReadonlyArray<SnapshotDiff.ListItem>;
+
+  /** Objects that were removed from lists */
+  readonly removed: ReadonlyArray<SnapshotDiff.ListItem>;
+
+  /** Objects that were moved within lists, relative to other objects that remain in the same list */
+  readonly moved: ReadonlyArray<SnapshotDiff.ListItem>;
+
+  /** Changed record properties, map keys, and reference targets */
+  readonly changed: ReadonlyArray<SnapshotDiff.Change>;
+}
+
+export namespace SnapshotDiff {
+  /** An object that was added to, removed from, or moved within a list */
+  export interface ListItem {
+    /** Managed ID of the list */
+    readonly listId: number;
+    /** Managed ID of the object that was added, removed, or moved */
+    readonly managedId: number;
+    /** Index of the object in the list (i.e. the new index, or the old index for removed objects) */
+    readonly index: number;
+    /** Path of the object within the graph, with segments separated by slashes (see `observeDeep`) */
+    readonly path: string;
+    /** Snapshot of the object, for objects that were added */
+    readonly snapshot?: ManagedSnapshot;
+  }
+
+  /** A record property, map key, or reference target that was changed */
+  export interface Change {
+    /** Managed ID of the record, map, or reference */
+    readonly managedId: number;
+    /** The property name or map key (`target` for references) */
+    readonly key: string;
+    /** Path of the property within the graph, with segments separated by slashes (see `observeDeep`) */
+    readonly path: string;
+    /** The old value */
+    readonly oldValue: SnapshotValue;
+    /** The new value */
+    readonly newValue: SnapshotValue;
+  }
+}
+
+/**
+ * Returns an immutable snapshot of given record, list, map, or reference, including all _child_ objects, recursively (see `@managedChild`). Record properties are included according to the same rules as `ManagedRecord.serialize`.
+ * @exception Throws an error if a record contains a property value that cannot be serialized.
+ */
+export function takeSnapshot(object: ManagedObject): ManagedSnapshot {
+  return _snapshot(object, "");
+}
+
+/** Returns the structural difference between given snapshot and another snapshot or a live object (which is captured as a snapshot first); list items are matched by managed ID, and scalar values are compared by value */
+export function diffSnapshots(
+  from: ManagedSnapshot,
+  to: ManagedSnapshot | ManagedObject
+): SnapshotDiff {
+  if (to instanceof ManagedObject) to = takeSnapshot(to);
+  let diff = { added: [], removed: [], moved: [], changed: [] };
+  _diff(from, to, "", diff);
+  return diff;
+}
+
+/**
+ * Apply given diff to a live object graph (i.e. the object passed to `takeSnapshot` or `diffSnapshots`, or another object that contains all of the same objects), to update it to the state of the newer snapshot. Objects that were added but no longer exist are created from their snapshots.
+ * @note Records that are changed emit a change event afterwards.
+ */
+export function applyDiff(root: ManagedObject, diff: SnapshotDiff) {
+  let objects = _indexObjects(root);
+  let changed: ManagedRecord[] = [];
+
+  // update lists first, one list at a time
+  let listIds: { [managedId: number]: boolean } = Object.create(null);
+  for (let item of diff.added.concat(diff.removed, diff.moved)) {
+    listIds[item.listId] = true;
+  }
+  for (let id in listIds) {
+    let list = objects[id];
+    if (!(list instanceof ManagedList)) continue;
+    let removed: { [managedId: number]: boolean } = Object.create(null);
+    diff.removed.forEach(item => {
+      if (String(item.listId) === id) removed[item.managedId] = true;
+    });
+    let result = list.toArray().filter(o => !removed[o.managedId]);
+    diff.added
+      .concat(diff.moved)
+      .filter(item => String(item.listId) === id)
+      .sort((a, b) => a.index - b.index)
+      .forEach(item => {
+        let object = _restore(item.snapshot || objects[item.managedId], objects);
+        if (!object) return;
+        let i = result.indexOf(object);
+        if (i >= 0) result.splice(i, 1);
+        result.splice(item.index, 0, object);
+      });
+    list.replace(result);
+  }
+
+  // update properties, map keys, and reference targets
+  for (let change of diff.changed) {
+    let object = objects[change.managedId];
+    if (!object || !object.managedState) continue;
+    let value = change.newValue;
+    let restored = _isSnapshot(value) ? _restore(value, objects) : value;
+    if (object instanceof ManagedMap) {
+      if (restored instanceof ManagedObject) object.set(change.key, restored);
+      else object.unset(change.key);
+    } else if (object instanceof ManagedReference) {
+      object.set(restored instanceof ManagedObject ? restored : undefined);
+    } else {
+      (object as any)[change.key] = Array.isArray(restored) ? restored.slice() : restored;
+      if (object instanceof ManagedRecord && changed.indexOf(object) < 0) {
+        changed.push(object);
+      }
+    }
+  }
+  changed.forEach(record => record.emitChange());
+}
+
+/** Helper function to create a snapshot of given object, and freeze it */
+function _snapshot(object: ManagedObject, path: string): ManagedSnapshot {
+  let managedId = object.managedId;
+  let result: ManagedSnapshot;
+  if (object instanceof ManagedList) {
+    let items = object
+      .toArray()
+      .map((o, i) =>
+        isChildObject(object, o) ? _snapshot(o, _subPath(path, i)) : _reference(o)
+      );
+    result = { managedId, kind: "list", items: Object.freeze(items) };
+  } else if (object instanceof ManagedMap) {
+    let properties: { [key: string]: SnapshotValue } = Object.create(null);
+    object.forEach((key, o) => {
+      properties[key] = isChildObject(object, o)
+        ? _snapshot(o, _subPath(path, key))
+        : _reference(o);
+    });
+    result = { managedId, kind: "map", properties: Object.freeze(properties) };
+  } else if (object instanceof ManagedReference) {
+    let properties: { [key: string]: SnapshotValue } = Object.create(null);
+    let target = object.get();
+    if (target) {
+      properties.target = isChildObject(object, target)
+        ? _snapshot(target, path)
+        : _reference(target);
+    }
+    result = { managedId, kind: "reference", properties: Object.freeze(properties) };
+  } else if (object instanceof ManagedRecord) {
+    let properties: { [key: string]: SnapshotValue } = Object.create(null);
+    let children = getChildEntries(object);
+    let values = getRecordValues(object);
+    for (let p in values) {
+      let v = _value(values[p], _subPath(path, p));
+      if (v !== undefined) properties[p] = v;
+    }
+    for (let child of children) {
+      let p = child.key!;
+      properties[p] = _snapshot(child.object, _subPath(path, p));
+    }
+    let recordClass = object.constructor as ManagedRecordConstructor;
+    result = {
+      managedId,
+      kind: "record",
+      recordClass,
+      properties: Object.freeze(properties),
+    };
+  } else {
+    result = _reference(object);
+  }
+  return Object.freeze(result);
+}
+
+/** Helper function to create a snapshot value for given (non-child) property value */
+function _value(v: any, path: string): SnapshotValue {
+  if (
+    v === undefined ||
+    v === null ||
+    typeof v === "string" ||
+    typeof v === "number" ||
+    typeof v === "boolean"
+  )
+    return v;
+  if (Array.isArray(v)) return Object.freeze(v.map((x, i) => _value(x, _subPath(path, i))));
+  if (v instanceof ManagedObject) return undefined;
+  throw err(ERROR.Record_Serializable, path);
+}
+
+/** Helper function to create a snapshot that only refers to given object */
+function _reference(object: ManagedObject): ManagedSnapshot {
+  return Object.freeze({ managedId: object.managedId, kind: "object" as "object" });
+}
+
+/** Helper function to add differences between given snapshots to given diff */
+function _diff(from: ManagedSnapshot, to: ManagedSnapshot, path: string, diff: any) {
+  const sub = (key: string | number) => _subPath(path, key);
+  if (from.items && to.items) {
+    let fromIds = from.items.map(s => s.managedId);
+    let toIds = to.items.map(s => s.managedId);
+    from.items.forEach((s, index) => {
+      if (toIds.indexOf(s.managedId) < 0) {
+        diff.removed.push({
+          listId: to.managedId,
+          managedId: s.managedId,
+          index,
+          path: sub(index),
+        });
+      }
+    });
+    to.items.forEach((s, index) => {
+      let i = fromIds.indexOf(s.managedId);
+      if (i < 0) {
+        diff.added.push({
+          listId: to.managedId,
+          managedId: s.managedId,
+          index,
+          path: sub(index),
+          snapshot: s,
+        });
+      } else {
+        _diff(from.items![i], s, sub(index), diff);
+      }
+    });
+
+    // find the smallest set of objects that were moved relative to other objects
+    let stable = _longestIncreasing(
+      toIds.map(id => fromIds.indexOf(id)).filter(i => i >= 0)
+    );
+    to.items.forEach((s, index) => {
+      let i = fromIds.indexOf(s.managedId);
+      if (i >= 0 && !stable[i]) {
+        diff.moved.push({
+          listId: to.managedId,
+          managedId: s.managedId,
+          index,
+          path: sub(index),
+        });
+      }
+    });
+    return;
+  }
+  let fromProps = from.properties || {};
+  let toProps = to.properties || {};
+  let keys = Object.keys(fromProps).concat(
+    Object.keys(toProps).filter(k => !(k in fromProps))
+  );
+  for (let key of keys) {
+    let a = fromProps[key];
+    let b = toProps[key];
+    let keyPath = to.kind === "reference" ? path : sub(key);
+    if (_isSnapshot(a) && _isSnapshot(b) && a.managedId === b.managedId) {
+      _diff(a, b, keyPath, diff);
+    } else if (!_isSameValue(a, b)) {
+      diff.changed.push({
+        managedId: to.managedId,
+        key,
+        path: keyPath,
+        oldValue: a,
+        newValue: b,
+      });
+    }
+  }
+}
+
+/** Helper function to append given property name, list index, or map key to given path, separated by a slash (see `observeDeep`) */
+function _subPath(path: string, key: string | number) {
+  let segment = escapePathSegment(String(key));
+  return path ? path + "/" + segment : segment;
+}
+
+/** Returns the values of the longest increasing subsequence of given numbers, as a lookup table */
+function _longestIncreasing(values: number[]) {
+  let tails: number[] = [];
+  let prev: number[] = [];
+  values.forEach((v, i) => {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      let mid = (lo + hi) >> 1;
+      if (values[tails[mid]] < v) lo = mid + 1;
+      else hi = mid;
+    }
+    prev[i] = lo > 0 ? tails[lo - 1] : -1;
+    tails[lo] = i;
+  });
+  let result: boolean[] = [];
+  for (let i = tails.length ? tails[tails.length - 1] : -1; i >= 0; i = prev[i]) {
+    result[values[i]] = true;
+  }
+  return result;
+}
+
+/** Returns true if given value is a snapshot object */
+function _isSnapshot(value: any): value is ManagedSnapshot {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/** Returns true if given (non-snapshot) values are the same */
+function _isSameValue(a: SnapshotValue, b: SnapshotValue): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => _isSameValue(v, b[i]));
+  }
+  if (_isSnapshot(a) && _isSnapshot(b)) return a.managedId === b.managedId;
+  return a === b;
+}
+
+/** Helper function to find all objects in given graph, including list and map items that are not child objects, by managed ID */
+function _indexObjects(root: ManagedObject) {
+  let result: { [managedId: number]: ManagedObject } = Object.create(null);
+  const add = (object?: ManagedObject) => {
+    if (!object || result[object.managedId]) return;
+    result[object.managedId] = object;
+    if (object instanceof ManagedList) object.forEach(add);
+    else if (object instanceof ManagedMap) object.objects().forEach(o => add(o));
+    else getChildEntries(object).forEach(child => add(child.object));
+  };
+  add(root);
+  return result;
+}
+
+/** Helper function to find or create an object for given snapshot */
+function _restore(
+  snapshot: ManagedSnapshot | ManagedObject | undefined,
+  objects: { [managedId: number]: ManagedObject }
+): ManagedObject | undefined {
+  if (!snapshot || snapshot instanceof ManagedObject) return snapshot;
+  let existing = objects[snapshot.managedId];
+  if (existing && existing.managedState) return existing;
+  if (snapshot.kind === "list") {
+    let list = new ManagedList();
+    snapshot.items!.forEach(s => {
+      let o = _restore(s, objects);
+      if (o) list.add(o);
+    });
+    return list;
+  }
+  let properties = snapshot.properties || {};
+  if (snapshot.kind === "map") {
+    let map = new ManagedMap();
+    for (let key in properties) {
+      let o = _restore(properties[key] as ManagedSnapshot, objects);
+      if (o) map.set(key, o);
+    }
+    return map;
+  }
+  if (snapshot.kind === "reference") {
+    return new ManagedReference(_restore(properties.target as ManagedSnapshot, objects));
+  }
+  if (snapshot.kind === "record") {
+    let record: any = new (snapshot.recordClass as any)();
+    for (let p in properties) {
+      let v = properties[p];
+      record[p] = _isSnapshot(v) ? _restore(v, objects) : Array.isArray(v) ? v.slice() : v;
+    }
+    return record;
+  }
+}
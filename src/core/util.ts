@@ -26,6 +26,12 @@ export const enum HIDDEN {
   /** @internal Arbitrary name of flag on property getter to indicate that synchronous observer handlers should not be allowed */
   GETTER_SHADOW_FORCE_ASYNC = "-async",
 
+  /** @internal Arbitrary name of the hidden property containing watcher functions for chained properties, see `watchProperty` */
+  PROPERTY_WATCHERS = "^-w",
+
+  /** @internal Arbitrary name of the hidden property containing release callbacks for weak references to a managed object, see `ManagedWeakReference` */
+  WEAK_REFS_PROPERTY = "^-wk",
+
   /** @internal Arbitrary name of the setter function method to get a property handler/getter pair */
   SETTER_CHAIN = "^-ch",
 
@@ -55,6 +61,9 @@ export const enum HIDDEN {
 
   /** @internal Arbitrary name of a hidden property that references the base Component observer */
   COMPONENT_OBSERVER_PROPERTY = "^+bndO",
+
+  /** @internal Arbitrary name of the hidden method on the Component prototype that handles component events during the capture phase */
+  CAPTURE_HANDLER = "^+cap",
 }
 
 /** @internal Reusable object that represents a single reference */
@@ -215,6 +224,10 @@ export function defineChainableProperty<T>(
     let instanceSetter = function (this: T, v: any) {
       prev.setter && prev.setter.call(this, v);
       handler((value = v), undefined, handler);
+      let watchers = (this as any)[HIDDEN.PROPERTY_WATCHERS];
+      if (watchers && watchers[propertyKey]) {
+        watchers[propertyKey].slice().forEach((f: () => void) => f());
+      }
     };
 
     // define getter based on various prototype getters
@@ -222,6 +235,7 @@ export function defineChainableProperty<T>(
     if (!instanceGetter) {
       if (origShadowed) {
         let getting: boolean | undefined;
+        // (reads of the original property are already tracked, if needed)
         instanceGetter = function (this: T) {
           if (getting) return value;
           getting = true;
@@ -231,8 +245,14 @@ export function defineChainableProperty<T>(
             getting = false;
           }
         };
+      } else if (getter) {
+        // (getters report their own reads, if needed)
+        instanceGetter = getter;
       } else {
-        instanceGetter = getter || (() => value);
+        instanceGetter = function (this: T) {
+          if (readTracker) readTracker(this, propertyKey as any, value);
+          return value;
+        };
       }
     }
 
@@ -269,7 +289,13 @@ export function defineChainableProperty<T>(
   };
 
   // set or override prototype property
-  let protoGetter = getter || (() => ownDescriptor && ownDescriptor.value);
+  let protoGetter =
+    getter ||
+    function (this: T) {
+      let value = ownDescriptor && ownDescriptor.value;
+      if (readTracker) readTracker(this, propertyKey as any, value);
+      return value;
+    };
   Object.defineProperty(targetPrototype, propertyKey, {
     configurable: true,
     enumerable: ownDescriptor ? ownDescriptor.enumerable : true,
@@ -278,6 +304,52 @@ export function defineChainableProperty<T>(
   });
 }
 
+/** @internal Current function that is called for every chained property that is read, if any (see `trackReads`); getters that are passed to `defineChainableProperty` should call this function themselves */
+export let readTracker: ((obj: any, propertyKey: string, value: any) => void) | undefined;
+
+/** @internal Run given function, and call given tracker function for every chained property that is read (see `defineChainableProperty`), as well as every read that is reported using `trackRead` */
+export function trackReads<T>(
+  f: () => T,
+  tracker: (obj: any, propertyKey: string, value: any) => void
+) {
+  let prev = readTracker;
+  readTracker = tracker;
+  try {
+    return f();
+  } finally {
+    readTracker = prev;
+  }
+}
+
+/** @internal Report a property read to the current read tracker, if any (see `trackReads`) */
+export function trackRead(obj: any, propertyKey: string, value: any) {
+  if (readTracker) readTracker(obj, propertyKey, value);
+}
+
+/** @internal Add a function that is called whenever a value is set on given chained property of given object (see `defineChainableProperty`); returns a function that removes the watcher again */
+export function watchProperty(obj: any, propertyKey: string, f: () => void) {
+  let watchers = obj[HIDDEN.PROPERTY_WATCHERS];
+  if (!watchers) {
+    watchers = Object.create(null);
+    Object.defineProperty(obj, HIDDEN.PROPERTY_WATCHERS, { value: watchers });
+  }
+  let list: Array<() => void> = watchers[propertyKey] || (watchers[propertyKey] = []);
+  list.push(f);
+  return () => {
+    let i = list.indexOf(f);
+    if (i >= 0) list.splice(i, 1);
+  };
+}
+
+/** @internal Names of all managed reference properties, by property ID (used by `ManagedInspector`) */
+export const refPropertyNames: { [propId: string]: string } = Object.create(null);
+
+/** @internal Handler that is called when a managed object is created or changes state, if any (set by `ManagedInspector`) */
+export let lifecycleHandler: ((object: any, state: number) => void) | undefined;
+export function setLifecycleHandler(handler?: (object: any, state: number) => void) {
+  lifecycleHandler = handler;
+}
+
 /** @internal Reference to `UnhandledErrorEmitter.emitError` (to break circular dependency) */
 export let exceptionHandler: (err: any) => void = () => {};
 export function setExceptionHandler(handler: (err: any) => void) {
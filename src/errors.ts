@@ -14,6 +14,8 @@ export const enum ERROR {
   Binding_NotFound,
   Binding_ParentNotFound,
   Binding_NoComponent,
+  Binding_TwoWay,
+  Binding_Syntax,
   Format_ObjectType,
   Format_Type,
   Component_NotAHandler,
@@ -38,11 +40,21 @@ export const enum ERROR {
   Object_PropGetSet,
   Object_NotWritable,
   Record_Serializable,
+  Record_Deserialize,
+  Record_FieldRequired,
+  Record_FieldType,
+  Record_FieldRange,
+  Record_FieldDecorator,
   Ref_Type,
   Service_NoName,
   Service_BlankName,
+  Service_Failed,
+  Service_NotRegistered,
+  Service_Timeout,
+  Service_ScopeDestroyed,
   Observe_ObserveParent,
   Observe_ShadowGetter,
+  Observe_ComputedGetter,
   Observe_RateLimitNonAsync,
   Observe_ObserverRecursion,
   Util_NoSync,
@@ -65,6 +77,8 @@ const errors: { [error: number]: string } = {
   [ERROR.Binding_NotFound]: "[Binding] Binding not found for: %s",
   [ERROR.Binding_ParentNotFound]: "[Binding] Bound parent binding not found for: %s",
   [ERROR.Binding_NoComponent]: "[Binding] Component not bound",
+  [ERROR.Binding_TwoWay]: "[Binding] Cannot write back to binding: %s",
+  [ERROR.Binding_Syntax]: "[Binding] Invalid binding expression: %s",
   [ERROR.Format_ObjectType]: "[Format] Cannot convert object value to string",
   [ERROR.Format_Type]: "[Format] Invalid format type: %s",
   [ERROR.Component_NotAHandler]: "[Component] Not an event handler method: %s",
@@ -91,12 +105,24 @@ const errors: { [error: number]: string } = {
     "[Object] Cannot turn properties with getters and/or setters into managed references",
   [ERROR.Object_NotWritable]: "[Object] Property is not writable",
   [ERROR.Record_Serializable]: "[Record] Property is not serializable: %s",
+  [ERROR.Record_Deserialize]: "[Record] Invalid value(s) for property: %s",
+  [ERROR.Record_FieldRequired]: "[Record] Field is required: %s",
+  [ERROR.Record_FieldType]: "[Record] Field has an invalid type: %s",
+  [ERROR.Record_FieldRange]: "[Record] Field value is out of range: %s",
+  [ERROR.Record_FieldDecorator]: "[Record] Fields can only be declared on records: %s",
   [ERROR.Ref_Type]: "[Object] Existing reference is not of given type",
   [ERROR.Service_NoName]: "[Service] Missing property name",
   [ERROR.Service_BlankName]: "[Service] Service name cannot be blank",
+  [ERROR.Service_Failed]: "[Service] Service failed to start: %s",
+  [ERROR.Service_NotRegistered]: "[Service] No service has been registered with name: %s",
+  [ERROR.Service_Timeout]: "[Service] Timeout while waiting for service(s): %s",
+  [ERROR.Service_ScopeDestroyed]:
+    "[Service] Scope object was destroyed while waiting for service(s): %s",
   [ERROR.Observe_ObserveParent]: "[Object] Cannot observe events on parent reference",
   [ERROR.Observe_ShadowGetter]:
     "[Object] Shadow observable can only be added to properties with getters",
+  [ERROR.Observe_ComputedGetter]:
+    "[Object] Computed property decorator can only be used on properties with getters",
   [ERROR.Observe_RateLimitNonAsync]:
     "[Object] Rate limit can only be applied to async handlers",
   [ERROR.Observe_ObserverRecursion]: "[Object] Recursion in observer constructor detected",
@@ -1,5 +1,6 @@
 import { Component } from "../core/Component";
 import { bind } from "../core/Binding";
+import { ManagedRecord } from "../core/ManagedRecord";
 import { AppException } from "../app";
 
 /** @internal Form context binding, can be reused to avoid creating new bindings */
@@ -21,6 +22,24 @@ export class UIFormContext<TData = any> extends Component {
     return result;
   }
 
+  /** Create an instance with the current values of all primitive (string, number, boolean, or array) fields of given record, along with validation tests for each field based on the record's field schema (see `@field`). The resulting values can be copied back to the record, or passed to `ManagedRecord.deserialize` using `serialize()` */
+  static createForRecord<TRecord extends ManagedRecord>(record: TRecord) {
+    let RecordClass = record.constructor as typeof ManagedRecord;
+    let values: Partial<TRecord> = Object.create(null);
+    let result = UIFormContext.create(values);
+    for (let p in RecordClass.fields) {
+      let schema = RecordClass.fields[p];
+      let type = typeof schema === "object" && "type" in schema ? schema.type : schema;
+      if (typeof type !== "string" && !("array" in type)) continue;
+      values[p as keyof TRecord] = (record as any)[p];
+      result.test(p as keyof TRecord, t => {
+        let error = RecordClass.validateField(p, t.value, record);
+        if (error) throw error;
+      });
+    }
+    return result;
+  }
+
   /** Retrieve the value for a field with given name */
   get<K extends keyof TData>(name: K): TData[K] | undefined {
     if (name === undefined) return undefined;
@@ -1,4 +1,12 @@
-import { managedChild, ManagedObject, observe } from "../../../dist";
+import {
+  managedChild,
+  ManagedChangeEvent,
+  ManagedEvent,
+  ManagedObject,
+  observe,
+  ManagedState,
+  ManagedStateSignal,
+} from "../../../dist";
 
 consider("ManagedObject", () => {
   it("can create an instance", t => {
@@ -35,6 +43,69 @@ consider("ManagedObject", () => {
     t.test(order === "A1A2B1B2");
   });
 
+  it("can cancel ongoing activation", async t => {
+    t.failOnTimeout();
+    let aborted = false;
+    class Foo extends ManagedObject {
+      async onManagedStateActivatingAsync(signal: ManagedStateSignal) {
+        signal.addEventListener("abort", () => {
+          aborted = true;
+        });
+        await new Promise(r => setTimeout(r, 10));
+        signal.throwIfAborted();
+      }
+      activateAsync() {
+        return this.activateManagedAsync();
+      }
+      deactivateAsync() {
+        return this.deactivateManagedAsync();
+      }
+    }
+    let foo = new Foo();
+    let error: any;
+    let p = foo.activateAsync().catch(e => {
+      error = e;
+    });
+    await Promise.resolve();
+    foo.deactivateAsync();
+    let state = await foo.whenManagedStateSettledAsync();
+    await p;
+    t.assert(aborted, "Signal aborted");
+    t.assert(ManagedStateSignal.isCancellation(error), "Activation cancelled");
+    t.test(state === ManagedState.INACTIVE && foo.managedState === ManagedState.INACTIVE);
+  });
+
+  it("can activate again after cancelling activation", async t => {
+    t.failOnTimeout();
+    class Foo extends ManagedObject {
+      async onManagedStateActivatingAsync(signal: ManagedStateSignal) {
+        await new Promise(r => setTimeout(r, 10));
+        signal.throwIfAborted();
+      }
+      activateAsync() {
+        return this.activateManagedAsync();
+      }
+      deactivateAsync() {
+        return this.deactivateManagedAsync();
+      }
+    }
+    let foo = new Foo();
+    let results: string[] = [];
+    const track = (p: Promise<any>, name: string) =>
+      p.then(
+        () => results.push(name + ":ok"),
+        e =>
+          results.push(name + (ManagedStateSignal.isCancellation(e) ? ":cancel" : ":error"))
+      );
+    let p1 = track(foo.activateAsync(), "a1");
+    await Promise.resolve();
+    let p2 = track(foo.deactivateAsync(), "d");
+    let p3 = track(foo.activateAsync(), "a2");
+    await Promise.all([p1, p2, p3]);
+    t.assert(results.indexOf("a2:ok") >= 0, results.join());
+    t.test(foo.managedState === ManagedState.ACTIVE, String(foo.managedState));
+  });
+
   it("can emit events and handle them", t => {
     t.failOnTimeout();
     class MyObject extends ManagedObject {
@@ -93,4 +164,58 @@ consider("ManagedObject", () => {
     obj.child = new MyChildObject();
     await obj.child.destroyAsync();
   });
+
+  it("can iterate over emitted events asynchronously", async t => {
+    t.failOnTimeout();
+    let obj = new ManagedObject();
+    let stream = obj.events(ManagedChangeEvent);
+    obj.emitChange("Before");
+    let names: string[] = [];
+    let done = (async () => {
+      for await (let e of stream) {
+        names.push(e.name);
+        if (names.length === 2) break;
+      }
+    })();
+    obj.emit("Ignored");
+    obj.emitChange("A");
+    obj.emitChange("B");
+    await done;
+    t.assert(names.join() === "A,B", "Filtered events");
+    t.assert(stream.done, "Stream ended after break");
+    await Promise.resolve();
+    t.test(!stream.managedState, "Stream destroyed");
+  });
+
+  it("ends event streams when the source is destroyed", async t => {
+    t.failOnTimeout();
+    class MyObject extends ManagedObject {
+      async destroyAsync() {
+        await this.destroyManagedAsync();
+      }
+    }
+    let obj = new MyObject();
+    let events: ManagedEvent[] = [];
+    let done = (async () => {
+      for await (let e of obj.events()) events.push(e);
+    })();
+    obj.emit("Test");
+    await obj.destroyAsync();
+    await done;
+    t.test(events.length === 1 && events[0].name === "Test");
+  });
+
+  it("buffers a limited number of events", async t => {
+    t.failOnTimeout();
+    let obj = new ManagedObject();
+    let stream = obj.events();
+    stream.maxBuffered = 2;
+    let first = stream.next();
+    for (let name of ["A", "B", "C", "D"]) obj.emit(name);
+    let names = [(await first).value!.name];
+    names.push((await stream.next()).value!.name);
+    names.push((await stream.next()).value!.name);
+    await stream.return();
+    t.test(names.join() === "A,C,D");
+  });
 });
@@ -1,10 +1,18 @@
 import {
+  computed,
   managed,
+  ManagedList,
+  ManagedReference,
   ManagedEvent,
   ManagedObject,
   observe,
   onPropertyEvent,
   rateLimit,
+  debounce,
+  throttle,
+  serialize,
+  UnhandledErrorEmitter,
+  UnhandledErrorEvent,
 } from "../../../dist";
 
 consider("Observers", () => {
@@ -207,4 +215,171 @@ consider("Observers", () => {
       t.test(order === "A2B4C6");
     });
   });
+
+  it("can compute values with dependency tracking", t => {
+    let n = 0;
+    class B extends ManagedObject {
+      @managed ref = new ManagedReference<B>();
+    }
+    class A extends ManagedObject {
+      @managed list = new ManagedList();
+      @managed b = new B();
+      @computed get count() {
+        n++;
+        return this.list.count + (this.b.ref.get() ? 1 : 0);
+      }
+      @computed get double() {
+        return this.count * 2;
+      }
+    }
+    let changes = 0;
+    A.addObserver(
+      class {
+        onDoubleChange() {
+          changes++;
+        }
+      }
+    );
+    let a = new A();
+    t.assert(a.double === 0 && a.count === 0 && n === 1, "Initial value");
+    a.list.add(new ManagedObject());
+    t.assert(a.count === 1 && a.double === 2 && n === 2, "List change");
+    a.b.ref.set(new B());
+    t.assert(a.count === 2 && a.double === 4 && n === 3, "Reference change");
+    a.b = new B();
+    t.assert(a.double === 2 && n === 4, "Property change");
+    a.list.clear();
+    t.assert(a.double === 0 && changes === 5, "Observer called");
+    t.ok();
+  });
+
+  it("stops tracking dependencies of destroyed objects", async t => {
+    class A extends ManagedObject {
+      @managed list = new ManagedList();
+      @computed get count() {
+        return this.list.count;
+      }
+    }
+    let a = new A();
+    let list = a.list;
+    t.assert(a.count === 0 && (list as any).getReferenceCount() === 2, "Tracked");
+    await (a as any).destroyManagedAsync();
+    t.test((list as any).getReferenceCount() === 0, "Dependencies discarded");
+  });
+
+  it("can debounce observer methods", async t => {
+    t.failOnTimeout();
+    let order = "";
+    class A extends ManagedObject {
+      a?: string;
+    }
+    class AObserver {
+      @debounce(10)
+      onAChange(v: string) {
+        order += v;
+      }
+    }
+    A.addObserver(AObserver);
+    let a = new A();
+    a.a = "1";
+    a.a = "2";
+    t.assert(order === "", "Not invoked immediately");
+    await _waitFor(() => !!order);
+    t.assert(order === "2", "Invoked once with last value");
+    a.a = "3";
+    a.a = "4";
+    await _waitFor(() => order.length > 1);
+    t.test(order === "24", order);
+  });
+
+  it("can throttle observer methods", async t => {
+    t.failOnTimeout();
+    let order = "";
+    class A extends ManagedObject {}
+    class AObserver {
+      @throttle(10)
+      onEvent(e: ManagedEvent) {
+        order += e.name;
+      }
+    }
+    class BObserver {
+      @throttle(10, { leading: false })
+      onEvent(e: ManagedEvent) {
+        order += e.name.toLowerCase();
+      }
+    }
+    A.addObserver(AObserver);
+    A.addObserver(BObserver);
+    let a = new A();
+    a.emit("1"), a.emit("2"), a.emit("3"); // 1 immediately, 3 after waiting
+    order += "A";
+    await _waitFor(() => order.length > 3);
+    t.test(order === "1A33", order);
+  });
+
+  it("cancels debounced and throttled methods when destroyed", async t => {
+    let order = "";
+    class A extends ManagedObject {
+      a?: string;
+    }
+    class AObserver {
+      @debounce(10)
+      onAChange(v: string) {
+        order += v;
+      }
+      @throttle(10)
+      onX() {
+        order += "X";
+      }
+      @serialize()
+      async onY() {
+        order += "<Y";
+        await new Promise(r => setTimeout(r, 5));
+        order += ">";
+      }
+    }
+    A.addObserver(AObserver);
+    let a = new A();
+    a.a = "1";
+    a.emit("X"), a.emit("X"); // first one immediately, second one after waiting
+    a.emit("Y"), a.emit("Y"); // first one started, second one queued
+    await new Promise(r => setTimeout(r, 1));
+    await (a as any).destroyManagedAsync();
+    await new Promise(r => setTimeout(r, 50));
+    t.test(order === "X<Y>", order);
+  });
+
+  it("can serialize async observer methods", async t => {
+    t.failOnTimeout();
+    let order = "";
+    let errors = UnhandledErrorEmitter.instance.events(UnhandledErrorEvent);
+    let nextError = errors.next();
+    class A extends ManagedObject {}
+    class AObserver {
+      @serialize()
+      async onEventAsync(e: ManagedEvent) {
+        order += "<" + e.name;
+        await new Promise(r => setTimeout(r, 10));
+        if (e.name === "2") throw Error("Serialize");
+        order += ">";
+      }
+    }
+    A.addObserver(AObserver);
+    let a = new A();
+    a.emit("1");
+    await Promise.resolve();
+    a.emit("2");
+    await Promise.resolve();
+    a.emit("3");
+    let error = (await nextError).value!.error;
+    errors.return();
+    await _waitFor(() => order.length > 7);
+    t.assert(error && error.message === "Serialize", "Error handled");
+    t.test(order === "<1><2<3>", order);
+  });
 });
+
+/** Helper function that waits until given function returns true */
+async function _waitFor(f: () => boolean) {
+  while (!f()) await new Promise(r => setTimeout(r, 1));
+}
@@ -1,11 +1,14 @@
 import {
   managed,
+  managedChild,
   ManagedList,
   ManagedObject,
   ManagedRecord,
   observe,
   onPropertyEvent,
   ManagedEvent,
+  ManagedListBatchChangeEvent,
+  ManagedObjectAddedEvent,
 } from "../../../dist";
 
 consider("ManagedList", () => {
@@ -73,4 +76,181 @@ consider("ManagedList", () => {
     g.list.add(new ManagedObject(), new ManagedObject(), new ManagedObject());
     g.list.forEach(item => item.emit("Foo"));
   });
+
+  it("can create a sorted view", t => {
+    let list = new ManagedList(
+      ManagedRecord.create({ n: 3 }),
+      ManagedRecord.create({ n: 1 }),
+      ManagedRecord.create({ n: 2 })
+    );
+    let sorted = list.sorted((a, b) => a.n - b.n);
+    t.assert(sorted.pluck("n").join() === "1,2,3", "Initially sorted");
+    list.add(ManagedRecord.create({ n: 0 }));
+    t.assert(sorted.pluck("n").join() === "0,1,2,3", "Sorted after add");
+    list.remove(list.first()!);
+    t.assert(sorted.pluck("n").join() === "0,1,2", "Sorted after remove");
+    let item = list.first()!;
+    item.n = 5;
+    item.emitChange();
+    t.assert(sorted.pluck("n").join() === "0,2,5", "Sorted after change");
+    item.n = 1;
+    item.emitChange();
+    t.assert(sorted.pluck("n").join() === "0,1,2", "Moved back after change");
+    t.test(
+      list.toArray().every(o => (o as any).getReferenceCount() === 2),
+      "Single view reference per object"
+    );
+  });
+
+  it("can create a filtered view", t => {
+    let list = new ManagedList(
+      ManagedRecord.create({ n: 1 }),
+      ManagedRecord.create({ n: 2 }),
+      ManagedRecord.create({ n: 3 })
+    );
+    let changes = 0;
+    class Holder extends ManagedObject {
+      @managed odd = list.filtered(it => it.n % 2);
+      @observe static HolderObserver = class {
+        onOddChange() {
+          changes++;
+        }
+      };
+    }
+    let holder = new Holder();
+    t.assert(holder.odd.pluck("n").join() === "1,3", "Initially filtered");
+    list.add(ManagedRecord.create({ n: 5 }), ManagedRecord.create({ n: 6 }));
+    t.assert(holder.odd.pluck("n").join() === "1,3,5", "Filtered after add");
+    let item = list.get(1);
+    item.n = 7;
+    item.emitChange();
+    t.assert(holder.odd.pluck("n").join() === "1,7,3,5", "Filtered after change");
+    item.n = 8;
+    item.emitChange();
+    t.assert(holder.odd.pluck("n").join() === "1,3,5", "Removed after change");
+    t.assert(
+      list.toArray().every(o => (o as any).getReferenceCount() === 2),
+      "Single view reference per object"
+    );
+    t.test(changes >= 3, "View changes observed");
+  });
+
+  it("can combine changes in a batch", t => {
+    let events: ManagedEvent[] = [];
+    class Group extends ManagedObject {
+      @managed list = new ManagedList();
+      @observe static GroupObserver = class {
+        onListChange(_list: ManagedList, e?: ManagedEvent) {
+          if (e) events.push(e);
+        }
+      };
+    }
+    let g = new Group();
+    let o1 = new ManagedObject();
+    let o2 = new ManagedObject();
+    let o3 = new ManagedObject();
+    g.list.add(o1, o2);
+    events = [];
+    g.list.batch(list => {
+      list.add(o3);
+      list.remove(o1);
+      list.insert(o1, o2);
+    });
+    t.assert(events.length === 1, "Single event");
+    let e = events[0] as ManagedListBatchChangeEvent;
+    t.assert(e instanceof ManagedListBatchChangeEvent, "Batch event");
+    t.assert(e.added.length === 1 && e.added[0] === o3, "Added");
+    t.assert(e.removed.length === 0, "Removed");
+    t.test(g.list.toArray().join() === [o1, o2, o3].join(), "Result");
+  });
+
+  it("can roll back a batch", t => {
+    let o1 = new ManagedObject();
+    let o2 = new ManagedObject();
+    let list = new ManagedList(o1, o2);
+    let caught = false;
+    try {
+      list.batch(() => {
+        list.remove(o1);
+        list.add(new ManagedObject());
+        throw Error("Rollback");
+      });
+    } catch {
+      caught = true;
+    }
+    t.test(caught && list.toArray().join() === [o1, o2].join());
+  });
+
+  it("keeps child objects and propagates their events in a batch", async t => {
+    let events: ManagedEvent[] = [];
+    class Group extends ManagedObject {
+      @managedChild list = new ManagedList().propagateEvents();
+      @observe static GroupObserver = class {
+        onListChange(_list: ManagedList, e?: ManagedEvent) {
+          if (e) events.push(e);
+        }
+      };
+    }
+    let g = new Group();
+    let o1 = new ManagedObject();
+    let o2 = new ManagedObject();
+    g.list.add(o1, o2);
+    events = [];
+    try {
+      g.list.batch(list => {
+        o2.emitChange("Foo");
+        list.remove(o1);
+        throw Error("Rollback");
+      });
+    } catch {}
+    t.assert(events.length === 1 && events[0].name === "Foo", "Child event propagated");
+    g.list.batch(list => list.remove(o2));
+    await new Promise(r => setTimeout(r, 1));
+    t.assert(!!o1.managedState && g.list.includes(o1), "Rolled back child not destroyed");
+    t.test(!o2.managedState, "Removed child destroyed");
+  });
+
+  it("can create an index", t => {
+    let list = new ManagedList(
+      ManagedRecord.create({ id: "a", group: 1 }),
+      ManagedRecord.create({ id: "b", group: 2 }),
+      ManagedRecord.create({ id: "c", group: 1 })
+    );
+    let byId = list.createIndex("id");
+    let byGroup = list.createIndex(it => it.group);
+    t.assert(byId.get("b") === list.get(1), "Get by key");
+    t.assert(byGroup.getAll(1).length === 2, "Get all by key");
+    let d = ManagedRecord.create({ id: "d", group: 2 });
+    list.add(d);
+    t.assert(byId.get("d") === d, "Updated after add");
+    list.remove(list.first()!);
+    t.assert(!byId.has("a") && byGroup.getAll(1).length === 1, "Updated after remove");
+    d.id = "e";
+    d.emitChange();
+    t.test(!byId.has("d") && byId.get("e") === d, "Updated after change");
+  });
+
+  it("can iterate over change events asynchronously", async t => {
+    t.failOnTimeout();
+    let list = new ManagedList();
+    let all = list.changes();
+    let added = list.changes(ManagedObjectAddedEvent);
+    let firstResult = all.next();
+    let addedResult = added.next();
+    let a = new ManagedObject();
+    list.add(a);
+    list.emit("Ignored");
+    list.remove(a);
+    let first = await firstResult;
+    let second = await all.next();
+    t.assert(
+      first.value instanceof ManagedObjectAddedEvent &&
+        second.value.name === "ManagedObjectRemoved",
+      "All changes"
+    );
+    let result = await addedResult;
+    t.assert(!result.done && result.value.object === a, "Added object");
+    await all.return!();
+    t.test((await all.next()).done);
+  });
 });
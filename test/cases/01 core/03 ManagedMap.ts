@@ -1,10 +1,13 @@
 import {
   managed,
+  managedChild,
   ManagedMap,
   ManagedObject,
   observe,
   onPropertyEvent,
   ManagedEvent,
+  ManagedListBatchChangeEvent,
+  ManagedMapKeyChangeEvent,
 } from "../../../dist";
 
 consider("ManagedMap", () => {
@@ -71,4 +74,136 @@ consider("ManagedMap", () => {
     g.map.set("3", new ManagedObject());
     g.map.forEach((_key, item) => item.emit("Foo"));
   });
+
+  it("can combine changes in a batch", t => {
+    let events: ManagedEvent[] = [];
+    class Group extends ManagedObject {
+      @managed map = new ManagedMap();
+      @observe static GroupObserver = class {
+        onMapChange(_map: ManagedMap, e?: ManagedEvent) {
+          if (e) events.push(e);
+        }
+      };
+    }
+    let g = new Group();
+    let o1 = new ManagedObject();
+    let o2 = new ManagedObject();
+    g.map.set("1", o1);
+    events = [];
+    g.map.batch(map => {
+      map.set("2", o2);
+      map.unset("1");
+      map.set("3", o1);
+    });
+    t.assert(events.length === 1, "Single event");
+    let e = events[0] as ManagedListBatchChangeEvent;
+    t.assert(e.added.length === 1 && e.added[0] === o2, "Added");
+    t.assert(e.removed.length === 0, "Removed");
+    t.test(e.keys!.slice().sort().join() === "1,2,3", "Keys");
+  });
+
+  it("can roll back a batch", t => {
+    let map = new ManagedMap();
+    let o1 = new ManagedObject();
+    map.set("1", o1);
+    try {
+      map.batch(() => {
+        map.unset("1");
+        map.set("2", new ManagedObject());
+        throw Error("Rollback");
+      });
+    } catch {}
+    t.test(map.keys().join() === "1" && map.get("1") === o1);
+  });
+
+  it("keeps child objects when rolling back a batch", async t => {
+    class Group extends ManagedObject {
+      @managedChild map = new ManagedMap();
+    }
+    let g = new Group();
+    let o1 = new ManagedObject();
+    g.map.set("1", o1);
+    try {
+      g.map.batch(map => {
+        map.unset("1");
+        throw Error("Rollback");
+      });
+    } catch {}
+    await new Promise(r => setTimeout(r, 1));
+    t.test(!!o1.managedState && g.map.get("1") === o1);
+  });
+
+  it("can be iterated in insertion order", t => {
+    let map = new ManagedMap();
+    let a = new ManagedObject();
+    let b = new ManagedObject();
+    let c = new ManagedObject();
+    map.set("b", b);
+    map.set("a", a);
+    map.set("c", c);
+    map.unset("b");
+    map.set("b", b);
+    map.set("a", c);
+    t.assert(map.count === 3 && map.size === 3, "Count");
+    t.assert(map.keys().join() === "a,c,b", "Keys in insertion order");
+    let values = Array.from(map.values());
+    t.assert(values[0] === c && values[1] === c && values[2] === b, "Values");
+    let keys = Array.from(map)
+      .filter(([key, object]) => map.get(key) === object)
+      .map(([key]) => key);
+    t.assert(keys.join() === "a,c,b", "Iterator");
+    let entries = map.entries();
+    t.assert(entries.next().value[0] === "a", "Entries");
+    map.clear();
+    map.set("c", c);
+    map.set("a", a);
+    t.test(map.keys().join() === "c,a", "Keys after clear");
+  });
+
+  it("emits events for changes to specific keys", async t => {
+    class MyMap extends ManagedMap {}
+    let values: any[] = [];
+    MyMap.addEventHandler(function (e) {
+      if (e instanceof ManagedMapKeyChangeEvent && e.key === "a") values.push(e.object);
+    });
+    let map = new MyMap();
+    let a = new ManagedObject();
+    map.set("b", a);
+    map.set("a", a);
+    map.unset("a");
+    map.set("a", a);
+    await (a as any).destroyManagedAsync();
+    t.assert(values.length === 4, "Number of changes");
+    t.assert(values[0] === a && values[1] === undefined && values[2] === a, "Values");
+    t.test(values[3] === undefined && !map.has("b"), "Destroyed");
+  });
+
+  it("keeps track of the number of keys", async t => {
+    let map = new ManagedMap();
+    let a = new ManagedObject();
+    let b = new ManagedObject();
+    map.set("a", a);
+    map.set("b", a);
+    map.set("b", b);
+    t.assert(map.count === 2, "Count after set");
+    map.remove(a);
+    t.assert(map.count === 1, "Count after remove");
+    await (b as any).destroyManagedAsync();
+    t.assert(map.count === 0, "Count after destroy");
+    map.set("a", a);
+    map.clear();
+    t.test(map.count === 0 && map.size === 0, "Count after clear");
+  });
+
+  it("can use number keys", t => {
+    let map = new ManagedMap<ManagedObject, number>();
+    let a = new ManagedObject();
+    map.set(1, a);
+    map.set(2, a);
+    map.unset(2);
+    t.assert(map.get(1) === a && !map.has(2), "Get and has");
+    t.assert(map.keys()[0] === 1 && map.keys().length === 1, "Number keys");
+    let entries = Array.from(map.entries());
+    t.test(entries[0][0] === 1 && entries[0][1] === a, "Entries");
+  });
 });
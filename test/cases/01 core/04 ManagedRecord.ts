@@ -1,4 +1,17 @@
-import { ManagedRecord, managedChild, ManagedList, managed } from "../../../dist";
+import {
+  ManagedRecord,
+  managedChild,
+  ManagedList,
+  ManagedMap,
+  ManagedReference,
+  managed,
+  field,
+  ManagedChangeEvent,
+  observeDeep,
+  takeSnapshot,
+  diffSnapshots,
+  applyDiff,
+} from "../../../dist";
 
 consider("ManagedRecord", () => {
   it("can be created without parameters", t => {
@@ -141,4 +154,312 @@ consider("ManagedRecord", () => {
     t.assert(!s.not);
     t.ok();
   });
+
+  it("can be deserialized", t => {
+    class ItemRecord extends ManagedRecord {
+      static fields = { name: "string", tags: { array: "string" } } as const;
+      name = "";
+      tags: string[] = [];
+    }
+    class MyRecord extends ManagedRecord {
+      static fields = {
+        a: "string",
+        b: ItemRecord,
+        list: { list: ItemRecord },
+        map: { map: ItemRecord },
+      } as const;
+      a = "a";
+      @managedChild b?: ItemRecord;
+      @managedChild list = new ManagedList().restrict(ItemRecord);
+      @managedChild map = new ManagedMap().restrict(ItemRecord);
+    }
+    let r = MyRecord.create({ a: "A" });
+    r.b = ItemRecord.create({ name: "b", tags: ["x", "y"] });
+    r.list.add(ItemRecord.create({ name: "c" }), ItemRecord.create({ name: "d" }));
+    r.map.set("e", ItemRecord.create({ name: "e" }));
+    let d = MyRecord.deserialize(JSON.parse(JSON.stringify(r.serialize())));
+    t.assert(d instanceof MyRecord && d.a === "A");
+    t.assert(d.b instanceof ItemRecord && d.b.name === "b" && d.b.tags.join() === "x,y");
+    t.assert(d.b!.getParentRecord() === d);
+    t.assert(d.list.map(item => item.name).join() === "c,d");
+    t.assert(d.list.first()!.getParentRecord() === d);
+    t.assert(d.map.get("e")!.name === "e");
+    t.ok();
+  });
+
+  it("reports errors by field path when deserializing", t => {
+    class ItemRecord extends ManagedRecord {
+      static fields = { name: "string" } as const;
+    }
+    class MyRecord extends ManagedRecord {
+      static fields = { n: "number", list: { list: ItemRecord } } as const;
+      @managedChild list = new ManagedList().restrict(ItemRecord);
+    }
+    try {
+      MyRecord.deserialize({ n: "1", list: [{ name: "a" }, { name: 2 }] });
+    } catch (e) {
+      t.assert(/\bn \(expected number\)/.test(e.message), "Error for n");
+      t.assert(/list\/1\/name \(expected string\)/.test(e.message), "Error for list");
+      t.assert(e.errors.n === "expected number", "Error object for n");
+      t.assert(e.errors["list/1/name"] === "expected string", "Error object for list");
+      t.ok();
+    }
+  });
+
+  it("can serialize and deserialize references", t => {
+    class ItemRecord extends ManagedRecord {
+      @field.string() name = "";
+    }
+    class MyRecord extends ManagedRecord {
+      @field.ref(ItemRecord) selected = new ManagedReference<ItemRecord>();
+      @field.ref(ItemRecord) other = new ManagedReference<ItemRecord>();
+      @field.list(ItemRecord) list = new ManagedList().restrict(ItemRecord);
+    }
+    let r = new MyRecord();
+    let other = ItemRecord.create({ name: "x" });
+    r.list.add(ItemRecord.create({ name: "a" }), ItemRecord.create({ name: "b" }));
+    r.selected.set(r.list.last());
+    r.other.set(other);
+    let s = JSON.parse(JSON.stringify(r.serialize()));
+    t.assert(s.selected.$ref === "list/1", "Serialized list item reference");
+    t.assert(s.other.name === "x", "Serialized other record");
+    let d = MyRecord.deserialize(s);
+    t.assert(d.selected.get() === d.list.last(), "Same instance");
+    t.assert(d.other.get()!.name === "x", "Other record");
+    try {
+      MyRecord.deserialize({ selected: { $ref: "list/5" } });
+    } catch (e) {
+      t.assert(e.errors.selected === "invalid reference");
+      t.ok();
+    }
+  });
+
+  it("can validate declared fields", t => {
+    class ItemRecord extends ManagedRecord {
+      @field.string({ required: true, maxLength: 3 }) name = "";
+    }
+    class MyRecord extends ManagedRecord {
+      @field.number({ min: 1 }) n = 1;
+      @field.list(ItemRecord, { required: true }) list = new ManagedList();
+    }
+    let changes = 0;
+    MyRecord.addEventHandler(e => {
+      if (e instanceof ManagedChangeEvent) changes++;
+    });
+    let r = new MyRecord();
+    t.assert(r.validate() === false && !!r.errors.list, "List required");
+    t.assert(!r.errors.n && changes === 1, "Number valid");
+    r.n = 0;
+    t.assert(!!r.errors.n && changes === 2, "Number out of range");
+    r.n = 2;
+    t.assert(r.errors.n === undefined && changes === 3, "Number valid again");
+    let item = new ItemRecord();
+    t.assert(!!item.errors.name, "Item name required");
+    item.name = "abcd";
+    t.assert(!!item.errors.name, "Item name too long");
+    item.name = "abc";
+    t.assert(item.valid, "Item valid");
+    r.list.add(item);
+    t.assert(r.valid && item.getParentRecord() === r, "List valid");
+    t.assert(!!MyRecord.validateField("n", "1"), "Type checked");
+    t.ok();
+  });
+
+  it("is not valid if required fields have not been set", t => {
+    class MyRecord extends ManagedRecord {
+      @field.string({ required: true }) name?: string;
+    }
+    let r = new MyRecord();
+    t.assert(!r.valid, "Not valid");
+    r.name = "a";
+    t.assert(r.valid, "Valid");
+    t.ok();
+  });
+
+  it("can serialize and deserialize declared fields", t => {
+    class ItemRecord extends ManagedRecord {
+      @field.string() name = "";
+    }
+    class MyRecord extends ManagedRecord {
+      @field.record(ItemRecord) item?: ItemRecord;
+      @field.list(ItemRecord) list = new ManagedList().restrict(ItemRecord);
+    }
+    let r = new MyRecord();
+    r.item = ItemRecord.create({ name: "a" });
+    r.list.add(ItemRecord.create({ name: "b" }));
+    let s = r.serialize();
+    t.assert(s.item.name === "a" && s.list[0].name === "b", "Serialized");
+    let d = MyRecord.deserialize(s);
+    t.assert(d.item!.name === "a" && d.list.first()!.name === "b", "Deserialized");
+    try {
+      MyRecord.deserialize({ item: { name: 1 } });
+    } catch {
+      t.ok();
+    }
+  });
+
+  it("can observe deep changes", t => {
+    class LineRecord extends ManagedRecord {
+      qty = 1;
+    }
+    class OrderRecord extends ManagedRecord {
+      @managedChild lines = new ManagedList().restrict(LineRecord);
+    }
+    class MyRecord extends ManagedRecord {
+      name = "";
+      @managedChild orders = new ManagedList().restrict(OrderRecord);
+      @managedChild map = new ManagedMap().restrict(OrderRecord);
+    }
+    let r = new MyRecord();
+    let order = new OrderRecord();
+    r.orders.add(new OrderRecord(), order);
+    let changes: string[] = [];
+    let observer = observeDeep(r, c => {
+      changes.push(c.type + ":" + c.path);
+    });
+    let line = new LineRecord();
+    order.lines.add(line);
+    line.qty = 2;
+    line.emitChange();
+    r.name = "foo";
+    r.emitChange();
+    r.map.set("a/b", new OrderRecord());
+    r.orders.remove(r.orders.first()!);
+    line.qty = 3;
+    line.emitChange();
+    observer.stop();
+    r.name = "bar";
+    r.emitChange();
+    t.test(
+      changes.join() ===
+        "add:orders/1/lines/0,set:orders/1/lines/0/qty,set:name," +
+          "add:map/a~1b,remove:orders/0,set:orders/0/lines/0/qty"
+    );
+  });
+
+  it("can observe managed property changes without change events", t => {
+    class LineRecord extends ManagedRecord {
+      @field.number() qty = 1;
+    }
+    class MyRecord extends ManagedRecord {
+      @managedChild lines = new ManagedList().restrict(LineRecord);
+    }
+    let r = new MyRecord();
+    let line = new LineRecord();
+    r.lines.add(line);
+    let changes: string[] = [];
+    let observer = observeDeep(r, c => {
+      changes.push(c.type + ":" + c.path + "=" + c.newValue);
+    });
+    line.qty = 2;
+    r.lines.remove(line);
+    line.qty = 3;
+    observer.stop();
+    t.test(changes.join() === "set:lines/0/qty=2,remove:lines/0=undefined");
+  });
+
+  it("can compare and apply snapshots", t => {
+    class LineRecord extends ManagedRecord {
+      qty = 1;
+    }
+    class OrderRecord extends ManagedRecord {
+      name = "";
+      @managedChild lines = new ManagedList().restrict(LineRecord);
+    }
+    let order = new OrderRecord();
+    let [a, b, c] = [1, 2, 3].map(qty => LineRecord.create({ qty }));
+    order.lines.add(a, b, c);
+    let before = takeSnapshot(order);
+    t.assert(Object.isFrozen(before) && before.properties!.lines, "Frozen snapshot");
+    let d = LineRecord.create({ qty: 4 });
+    order.name = "foo";
+    order.lines.replace([c, d, b]);
+    c.qty = 5;
+    let after = takeSnapshot(order);
+    let diff = diffSnapshots(before, order);
+    t.assert(diff.removed.length === 1 && diff.removed[0].managedId === a.managedId);
+    t.assert(diff.added.length === 1 && diff.added[0].managedId === d.managedId);
+    t.assert(diff.moved.length === 1 && diff.moved[0].managedId === c.managedId);
+    t.assert(
+      diff.changed.map(ch => ch.path + "=" + ch.newValue).join() ===
+        "name=foo,lines/0/qty=5"
+    );
+
+    // apply reverse diff to go back
+    applyDiff(order, diffSnapshots(after, before));
+    t.assert(order.name === "", "Name");
+    t.assert(order.lines.map(l => l.qty).join() === "1,2,3", "Lines");
+    t.assert(order.lines.get(1) === b && order.lines.get(2) === c, "Same objects");
+    t.ok();
+  });
+
+  it("only removes list items from the list in a diff", t => {
+    class MyRecord extends ManagedRecord {
+      @managedChild a = new ManagedList();
+      @managedChild b = new ManagedList();
+    }
+    let r = new MyRecord();
+    let x = new ManagedRecord();
+    let y = new ManagedRecord();
+    r.b.add(x);
+    let before = takeSnapshot(r);
+    r.b.add(y);
+    let diff = diffSnapshots(before, r);
+    r.b.remove(y);
+    applyDiff(r, {
+      ...diff,
+      removed: [{ listId: r.a.managedId, managedId: x.managedId, index: 0, path: "a/0" }],
+    });
+    t.assert(r.b.count === 2 && r.b.first() === x);
+    t.ok();
+  });
+
+  it("can track dirty state and revert changes", t => {
+    class LineRecord extends ManagedRecord {
+      qty = 1;
+    }
+    class OrderRecord extends ManagedRecord {
+      name = "";
+      @managedChild lines = new ManagedList().restrict(LineRecord);
+    }
+    let changes = 0;
+    OrderRecord.addEventHandler(e => {
+      if (e instanceof ManagedChangeEvent) changes++;
+    });
+    let order = OrderRecord.create({ name: "foo" });
+    let line = LineRecord.create({ qty: 2 });
+    order.lines.add(line);
+    t.assert(!order.isDirty, "Not dirty before markClean");
+    order.markClean();
+    changes = 0;
+    order.name = "bar";
+    line.qty = 3;
+    line.emitChange();
+    t.assert(order.isDirty && changes === 1, "Dirty");
+    order.lines.add(new LineRecord());
+    t.assert(order.getDirtyFields().join() === "name,lines/0/qty,lines", "Dirty fields");
+    order.revert(); // emits changes for `name`, and for becoming clean
+    t.assert(!order.isDirty && changes === 3, "Clean after revert");
+    t.assert(order.name === "foo" && line.qty === 2 && order.lines.count === 1, "Reverted");
+    t.ok();
+  });
+
+  it("updates dirty state for each change, until destroyed", async t => {
+    class MyRecord extends ManagedRecord {
+      @field.string() name = "a";
+      @managedChild lines = new ManagedList().restrict(ManagedRecord);
+    }
+    let r = new MyRecord().markClean();
+    r.name = "b";
+    t.assert(r.isDirty, "Dirty after set");
+    r.name = "a";
+    t.assert(!r.isDirty, "Clean after setting value back");
+    r.lines.add(new ManagedRecord());
+    t.assert(r.isDirty, "Dirty after adding");
+    r.lines.clear();
+    t.assert(!r.isDirty, "Clean after removing");
+    await (r as any).destroyManagedAsync();
+    r.name = "b";
+    t.test(!r.isDirty, "Not observed after destroy");
+  });
 });
@@ -2,8 +2,19 @@ import {
   Component,
   managedChild,
   bind,
+  bind2,
+  managed,
+  ManagedRecord,
   ComponentConstructor,
   ManagedList,
+  ManagedMap,
+  ManagedObject,
+  computed,
+  ComponentEvent,
+  registerFilter,
+  strf,
+  UnhandledErrorEmitter,
+  UnhandledErrorEvent,
 } from "../../../dist";
 
 consider("Component", () => {
@@ -164,4 +175,369 @@ consider("Component", () => {
       });
     });
   });
+
+  it("supports bindings on computed properties", t => {
+    class ChildComponent extends Component {
+      a = 0;
+    }
+    const ComponentWithBinding = ChildComponent.with({ a: bind("count") });
+    class MyComponent extends Component {
+      @managedChild list = new ManagedList();
+      @managedChild child = new ComponentWithBinding();
+      @computed get count() {
+        return this.list.count;
+      }
+    }
+    MyComponent.presetBoundComponent("child", ComponentWithBinding);
+    let c = new MyComponent();
+    c.list.add(new Component());
+    t.waitAsync(10, () => {
+      t.assert(c.child.a === 1, "Initial value");
+      c.list.add(new Component());
+      t.waitAsync(10, () => {
+        t.test(c.child.a === 2);
+      });
+    });
+  });
+
+  it("supports bindings on map keys", t => {
+    class ChildComponent extends Component {
+      a?: ManagedObject;
+    }
+    const ComponentWithBinding = ChildComponent.with({ a: bind("map.foo") });
+    class MyComponent extends Component {
+      @managedChild child = new ComponentWithBinding();
+      @managedChild map = new ManagedMap();
+    }
+    MyComponent.presetBoundComponent("child", ComponentWithBinding);
+    let c = new MyComponent();
+    t.assert(c.child.a === undefined, "Initial value");
+    let foo = new ManagedObject();
+    c.map.set("bar", new ManagedObject());
+    c.map.set("foo", foo);
+    t.waitAsync(10, () => {
+      t.assert(c.child.a === foo, "Updated after set");
+      c.map.unset("foo");
+      t.waitAsync(10, () => {
+        t.test(c.child.a === undefined, "Updated after unset");
+      });
+    });
+  });
+
+  it("supports two-way bindings", async t => {
+    class Customer extends ManagedRecord {
+      name = "A";
+    }
+    class ChildComponent extends Component {
+      x?: number;
+      name?: string;
+    }
+    const ComponentWithBinding = ChildComponent.with({
+      x: bind2("x"),
+      name: bind("customer.name").twoWay(),
+    });
+    class MyComponent extends Component {
+      x = 1;
+      @managed customer = new Customer();
+      @managedChild child = new ComponentWithBinding();
+      @managedChild other = new ComponentWithBinding();
+    }
+    MyComponent.presetBoundComponent("child", ComponentWithBinding);
+    MyComponent.presetBoundComponent("other", ComponentWithBinding);
+    let c = new MyComponent();
+    t.assert(c.child.x === 1 && c.child.name === "A", "Initial values");
+    c.child.x = 2;
+    t.assert(c.x === 2 && c.other.x === 2, "Written back");
+    c.x = 3;
+    await new Promise(r => setTimeout(r, 1));
+    t.assert(c.child.x === 3 && c.other.x === 3, "Updated from parent");
+    c.other.name = "B";
+    t.assert(c.customer.name === "B" && c.child.name === "B", "Nested path written back");
+    let error: any;
+    try {
+      bind("x|s").twoWay();
+    } catch (e) {
+      error = e;
+    }
+    t.assert(error, "Filtered binding cannot be two-way");
+    let errors = 0;
+    for (let f of [
+      (b: any) => b.match(1),
+      (b: any) => b.nonMatch(1),
+      (b: any) => b.and("y"),
+      (b: any) => b.or("y"),
+    ]) {
+      try {
+        f(bind("x").twoWay());
+      } catch {
+        errors++;
+      }
+    }
+    t.test(errors === 4, "Cannot add filters or bindings after two-way");
+  });
+
+  it("supports binding expressions", async t => {
+    class ChildComponent extends Component {
+      a?: any;
+      b?: any;
+    }
+    const ComponentWithBinding = ChildComponent.with({
+      a: bind("count > 0 ? items.length : 'none'"),
+      b: bind("uc(name) + ': ' + (count * 2 + 1) || 'x' | lc"),
+    });
+    class MyComponent extends Component {
+      count = 0;
+      items = [1, 2];
+      name = "Test";
+      @managedChild child = new ComponentWithBinding();
+    }
+    MyComponent.presetBoundComponent("child", ComponentWithBinding);
+    let c = new MyComponent();
+    t.assert(c.child.a === "none", "Initial value");
+    t.assert(c.child.b === "test: 1", "Filters and arithmetic");
+    c.count = 1;
+    await new Promise(r => setTimeout(r, 1));
+    t.assert(c.child.a === 2 && c.child.b === "test: 3", "Updated");
+    let errors: string[] = [];
+    for (let source of ["a >", "(a", "a ? b", "a # b"]) {
+      try {
+        bind(source);
+      } catch (e) {
+        errors.push(e.message);
+      }
+    }
+    t.test(
+      errors.length === 4 && errors.every(s => /Invalid binding expression/.test(s)),
+      errors.join("; ")
+    );
+  });
+
+  it("supports registered filters", t => {
+    let errors: string[] = [];
+    UnhandledErrorEmitter.addEventHandler(e => {
+      if (e instanceof UnhandledErrorEvent && /Filter/.test(e.error.message)) {
+        errors.push(e.error.message);
+      }
+    });
+    class ChildComponent extends Component {
+      a?: string;
+      b?: string;
+      c?: string;
+    }
+    const ComponentWithBinding = ChildComponent.with({
+      a: bind("name|wrapFilter:<:>"),
+      b: bind("wrapFilter(name, '(', ')') + '!'"),
+      c: bind("name|unknownFilter"),
+    });
+    registerFilter("wrapFilter", (v: string, l = "[", r = "]") => l + v + r);
+    class MyComponent extends Component {
+      name = "Test";
+      @managedChild child = new ComponentWithBinding();
+    }
+    MyComponent.presetBoundComponent("child", ComponentWithBinding);
+    let c = new MyComponent();
+    t.assert(c.child.a === "<Test>", "Filter with arguments");
+    t.assert(c.child.b === "(Test)!", "Filter in expression");
+    t.assert(String(strf("%{wrapFilter}", "x")) === "[x]", "Filter in strf");
+    t.test(
+      errors.length === 1 && /Invalid format type: unknownFilter/.test(errors[0]),
+      "Unknown filter reported when bound"
+    );
+  });
+
+  it("supports async bindings", async t => {
+    class ChildComponent extends Component {
+      a?: string;
+      b?: string;
+      c?: string;
+    }
+    const ComponentWithBinding = ChildComponent.with({
+      a: bind("p|await|uc"),
+      b: bind("p").async({ pending: "...", error: (e: Error) => "E:" + e.message }),
+      c: bind("items").async({ pending: "-" }),
+    });
+    let resolveFirst: (s: string) => void;
+    let first = new Promise<string>(r => {
+      resolveFirst = r;
+    });
+    async function* gen() {
+      yield "1";
+      await new Promise(r => setTimeout(r, 1));
+      yield "2";
+    }
+    class MyComponent extends Component {
+      p: Promise<string> = first;
+      items = gen();
+      @managedChild child = new ComponentWithBinding();
+    }
+    MyComponent.presetBoundComponent("child", ComponentWithBinding);
+    let c = new MyComponent();
+    t.assert(c.child.a === undefined && c.child.b === "...", "Pending");
+    t.assert(c.child.c === "-", "Pending iterable");
+    c.p = Promise.reject(Error("Oops"));
+    await new Promise(r => setTimeout(r, 1));
+    t.assert(c.child.b === "E:Oops", "Error value");
+    resolveFirst!("stale");
+    c.p = Promise.resolve("ok");
+    await new Promise(r => setTimeout(r, 10));
+    t.assert(c.child.a === "OK" && c.child.b === "ok", "Resolved, stale result dropped");
+    t.test(c.child.c === "2", "Iterable values");
+  });
+
+  it("returns async iterables when replaced or unbound", async t => {
+    t.failOnTimeout();
+    let log: string[] = [];
+    const iterable = (name: string) => ({
+      [Symbol.asyncIterator]() {
+        let n = 0;
+        return {
+          next: () =>
+            new Promise<IteratorResult<string>>(r => {
+              setTimeout(() => r({ done: false, value: name + ++n }), 1);
+            }),
+          return: () => {
+            log.push("return " + name);
+            return Promise.resolve({ done: true, value: undefined });
+          },
+        };
+      },
+    });
+    class ChildComponent extends Component {
+      a?: string;
+    }
+    const ComponentWithBinding = ChildComponent.with({ a: bind("items").async() });
+    class MyComponent extends Component {
+      items: any = iterable("a");
+      @managedChild child?: ChildComponent = new ComponentWithBinding();
+    }
+    MyComponent.presetBoundComponent("child", ComponentWithBinding);
+    let c = new MyComponent();
+    let child = c.child!;
+    await new Promise(r => setTimeout(r, 5));
+    t.assert(/^a\d+$/.test(child.a!), "First iterable: " + child.a);
+    c.items = iterable("b");
+    await new Promise(r => setTimeout(r, 5));
+    t.assert(log.join() === "return a", "Replaced iterable returned");
+    t.assert(/^b\d+$/.test(child.a!), "Second iterable: " + child.a);
+    c.child = undefined;
+    await new Promise(r => setTimeout(r, 5));
+    let value = child.a;
+    await new Promise(r => setTimeout(r, 5));
+    t.assert(child.a === value, "No more updates");
+    t.test(log.join() === "return a,return b", log.join());
+  });
+
+  it("supports list aggregate filters", async t => {
+    class Item extends ManagedRecord {
+      constructor(public total: number, public done = false) {
+        super();
+      }
+    }
+    class ChildComponent extends Component {
+      n?: number;
+      sum?: number;
+      nDone?: number;
+      first?: number;
+      last?: number;
+    }
+    const ComponentWithBinding = ChildComponent.with({
+      n: bind("items|count"),
+      sum: bind("items|sum:total"),
+      nDone: bind("items|where:done:true|count"),
+      first: bind("items|pluck:total|first"),
+      last: bind("items|pluck:total|last"),
+    });
+    class MyComponent extends Component {
+      @managedChild items = new ManagedList(new Item(1), new Item(2, true));
+      @managedChild child = new ComponentWithBinding();
+    }
+    MyComponent.presetBoundComponent("child", ComponentWithBinding);
+    let c = new MyComponent();
+    t.assert(c.child.n === 2 && c.child.sum === 3 && c.child.nDone === 1, "Initial values");
+    t.assert(c.child.first === 1 && c.child.last === 2, "First and last");
+    let item = new Item(3, true);
+    c.items.add(item);
+    await new Promise(r => setTimeout(r, 1));
+    t.assert(c.child.n === 3 && c.child.sum === 6 && c.child.nDone === 2, "List changed");
+    t.assert(c.child.last === 3, "Last changed");
+    item.total = 10;
+    item.done = false;
+    item.emitChange();
+    await new Promise(r => setTimeout(r, 1));
+    t.assert(c.child.sum === 13 && c.child.nDone === 1, "Item changed");
+    c.items.remove(item);
+    item.total = 20;
+    item.emitChange();
+    await new Promise(r => setTimeout(r, 1));
+    t.assert(c.child.sum === 3 && c.child.n === 2, "Removed item not observed");
+    let batchItem = new Item(4);
+    c.items.batch(list => {
+      list.add(batchItem);
+    });
+    batchItem.total = 5;
+    batchItem.emitChange();
+    await new Promise(r => setTimeout(r, 1));
+    t.test(c.child.sum === 8 && c.child.n === 3, "Item added in batch observed");
+  });
+
+  it("dispatches events with capture and bubble phases", t => {
+    let log: string[] = [];
+    class Child extends Component {}
+    class Middle extends Component {
+      constructor() {
+        super();
+        this.propagateChildEvents(ComponentEvent);
+      }
+      @managedChild child = new Child();
+    }
+    class Root extends Component {
+      constructor() {
+        super();
+        this.propagateChildEvents(ComponentEvent);
+      }
+      @managedChild middle = new Middle();
+    }
+    Root.addEventCaptureHandler(function (e) {
+      log.push("capture root " + e.name + " " + e.eventPhase);
+      if (e.name === "Blocked") e.stopPropagation();
+    });
+    Middle.addEventCaptureHandler(function (e) {
+      log.push("capture middle " + e.name);
+    });
+    Child.addEventHandler(function (e) {
+      if (e instanceof ComponentEvent) log.push("target " + e.name + " " + e.eventPhase);
+    });
+    Middle.addEventHandler(function (e) {
+      if (e instanceof ComponentEvent) {
+        log.push("bubble middle " + e.name + " " + e.eventPhase);
+        if (e.name === "Stopped") e.stopPropagation();
+        e.preventDefault();
+      }
+    });
+    Root.addEventHandler(function (e) {
+      if (e instanceof ComponentEvent && e.currentTarget === this) {
+        log.push("bubble root " + e.name);
+      }
+    });
+    let root = new Root();
+    let child = root.middle.child;
+    child.propagateComponentEvent("Test");
+    t.assert(
+      log.join() ===
+        "capture root Test capture,capture middle Test,target Test target," +
+          "bubble middle Test bubble,bubble root Test",
+      "Capture and bubble: " + log.join()
+    );
+    log = [];
+    child.propagateComponentEvent("Blocked");
+    t.assert(log.join() === "capture root Blocked capture", "Stopped while capturing");
+    log = [];
+    let e = new ComponentEvent("Stopped", child);
+    child.emit(e);
+    t.assert(
+      log.length === 4 && log[3] === "bubble middle Stopped bubble",
+      "Stopped while bubbling"
+    );
+    t.test(e.defaultPrevented && e.eventPhase === "none", "Default prevented");
+  });
 });
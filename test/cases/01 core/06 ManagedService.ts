@@ -1,4 +1,11 @@
-import { ManagedService, Component, service } from "../../../dist";
+import {
+  ManagedService,
+  Component,
+  service,
+  managedChild,
+  UnhandledErrorEmitter,
+  UnhandledErrorEvent,
+} from "../../../dist";
 
 consider("ManagedService", () => {
   it("can be registered", t => {
@@ -77,4 +84,182 @@ consider("ManagedService", () => {
     s.emitChange();
     t.test(ok, "Change event should trigger observer method");
   });
+
+  it("can be registered within a scope", async t => {
+    class TestService extends ManagedService {
+      name = "Test4";
+    }
+    class ChildComponent extends Component {
+      @service("Test4")
+      s?: TestService;
+    }
+    class ScopeComponent extends Component {
+      @managedChild
+      child = new ChildComponent();
+      async destroyAsync() {
+        await this.destroyManagedAsync();
+      }
+    }
+    let globalService = new TestService().register();
+    let scope1 = new ScopeComponent();
+    let scope2 = new ScopeComponent();
+    let scopedService = new TestService().register(scope1);
+    t.assert(scope1.child.s === scopedService, "Scoped service");
+    t.assert(scope2.child.s === globalService, "Global service");
+    t.assert(ManagedService.find("Test4") === globalService, "Find global service");
+    t.assert(ManagedService.find("Test4", scope1.child) === scopedService, "Find scoped");
+    await scope1.destroyAsync();
+    await new Promise(r => setTimeout(r, 1));
+    t.test(!scopedService.managedState && globalService.managedState, "Destroyed");
+  });
+
+  it("can observe scoped services", async t => {
+    class TestService extends ManagedService {
+      name = "Test4b";
+    }
+    class ChildComponent extends Component {
+      @service("Test4b")
+      s?: TestService;
+    }
+    class ScopeComponent extends Component {
+      @managedChild
+      child = new ChildComponent();
+    }
+    let seen: Array<TestService | undefined> = [];
+    ChildComponent.addObserver(
+      class {
+        constructor(public c: ChildComponent) {}
+        onSChange() {
+          seen.push(this.c.s);
+        }
+      }
+    );
+    let globalService = new TestService().register();
+    let scope = new ScopeComponent();
+    t.assert(scope.child.s === globalService, "Global service first");
+    let scopedService = new TestService().register(scope);
+    t.assert(scope.child.s === scopedService, "Scoped service");
+    await new Promise(r => setTimeout(r, 1));
+    t.assert(seen[seen.length - 1] === scopedService, "Observed scoped service");
+    await scopedService.destroyManagedAsync();
+    t.assert(scope.child.s === globalService, "Global service again");
+    await new Promise(r => setTimeout(r, 1));
+    t.test(seen[seen.length - 1] === globalService, "Observed global service");
+  });
+
+  it("can be started and stopped asynchronously", async t => {
+    let log: string[] = [];
+    class DependentService extends ManagedService {
+      name = "Test5a";
+      dependencies = ["Test5b"];
+      protected async startAsync() {
+        log.push("start a");
+      }
+      protected async stopAsync() {
+        log.push("stop a");
+      }
+    }
+    class DependencyService extends ManagedService {
+      name = "Test5b";
+      protected async startAsync() {
+        await new Promise(r => setTimeout(r, 1));
+        log.push("start b");
+      }
+    }
+    let a = new DependentService().register();
+    t.assert(a.serviceState === "registered", "Registered");
+    new DependencyService().register();
+    await ManagedService.whenReadyAsync(["Test5a", "Test5b"]);
+    t.assert(log.join() === "start b,start a", "Started in order");
+    t.assert(a.serviceState === "ready", "Ready");
+    let report = await ManagedService.getHealthReportAsync();
+    t.assert(
+      report.some(r => r.name === "Test5a" && r.healthy),
+      "Health report"
+    );
+    new DependentService().register();
+    await new Promise(r => setTimeout(r, 1));
+    t.test(log.join() === "start b,start a,stop a,start a" && !a.managedState, log.join());
+  });
+
+  it("reports errors while starting", async t => {
+    let error: any;
+    UnhandledErrorEmitter.addEventHandler(e => {
+      if (e instanceof UnhandledErrorEvent && e.error.message === "Failed") error = e.error;
+    });
+    class FailingService extends ManagedService {
+      name = "Test6";
+      protected async startAsync() {
+        throw Error("Failed");
+      }
+    }
+    let s = new FailingService().register();
+    let rejected = false;
+    await ManagedService.whenReadyAsync("Test6").catch(() => {
+      rejected = true;
+    });
+    await new Promise(r => setTimeout(r, 1));
+    t.assert(rejected, "Rejected");
+    t.assert(s.serviceState === "failed", "Failed");
+    t.assert(error && error.message === "Failed", "Error emitted");
+    let health = await s.getHealthAsync();
+    t.test(!health.healthy && /Failed/.test(health.error!), "Health");
+  });
+
+  it("stops waiting when the scope is destroyed", async t => {
+    let scope = new Component();
+    let error: any;
+    let p = ManagedService.whenReadyAsync("Test6.Missing", scope).catch(e => {
+      error = e;
+    });
+    await scope.destroyManagedAsync();
+    await p;
+    t.assert(error && /Test6\.Missing/.test(error.message), "Rejected");
+    class DependentService extends ManagedService {
+      name = "Test6b";
+      dependencies = ["Test6.Missing"];
+    }
+    let s = new DependentService().register();
+    await s.destroyManagedAsync();
+    await new Promise(r => setTimeout(r, 1));
+    t.test(s.serviceState === "stopped", "Stopped, not failed");
+  });
+
+  it("can be referenced using a token", t => {
+    class TokenService extends ManagedService {
+      name = "Test7";
+      value = 123;
+    }
+    const Token = ManagedService.token<TokenService>("test7");
+    class C extends Component {
+      @service(Token)
+      svc?: TokenService;
+    }
+    let c = new C();
+    let s = new TokenService().register();
+    let found = ManagedService.find(Token);
+    t.assert(found === s && found!.value === 123, "Found using token");
+    t.test(c.svc === s, "Decorator with token");
+  });
+
+  it("warns about unregistered services in dev mode", t => {
+    let warnings: string[] = [];
+    let warn = console.warn;
+    class C extends Component {
+      @service("Test8.Typo")
+      svc?: ManagedService;
+    }
+    let c = new C();
+    console.warn = (msg: string) => {
+      warnings.push(msg);
+    };
+    try {
+      ManagedService.devMode = true;
+      t.assert(!c.svc && !c.svc, "No service");
+    } finally {
+      ManagedService.devMode = false;
+      console.warn = warn;
+    }
+    t.test(warnings.length === 1 && /Test8\.Typo/.test(warnings[0]), "Warned once");
+  });
 });
@@ -0,0 +1,112 @@
+import {
+  ManagedRecord,
+  managedChild,
+  ManagedList,
+  ManagedHistory,
+  field,
+} from "../../../dist";
+
+consider("ManagedHistory", () => {
+  class ItemRecord extends ManagedRecord {
+    name = "";
+  }
+  class OrderRecord extends ManagedRecord {
+    title = "";
+    @managedChild items = new ManagedList().restrict(ItemRecord);
+  }
+
+  it("can undo and redo property changes", async t => {
+    let order = new OrderRecord();
+    let history = new ManagedHistory(order);
+    order.title = "A";
+    order.emitChange();
+    await Promise.resolve();
+    order.title = "B";
+    order.emitChange();
+    t.assert(history.canUndo && !history.canRedo, "Can undo");
+    history.undo();
+    t.assert(order.title === "A", "Undo once");
+    history.undo();
+    t.assert(order.title === "" && !history.canUndo, "Undo twice");
+    history.redo();
+    t.test(order.title === "A" && history.canRedo, "Redo");
+  });
+
+  it("can undo list changes", async t => {
+    let order = new OrderRecord();
+    let history = new ManagedHistory(order);
+    let item = ItemRecord.create({ name: "foo" });
+    order.items.add(item, ItemRecord.create({ name: "bar" }));
+    await Promise.resolve();
+    order.items.remove(item);
+    await new Promise(r => setTimeout(r, 1));
+    t.assert(!item.managedState, "Item destroyed");
+    history.undo();
+    t.assert(order.items.count === 2, "Restored count");
+    t.assert(order.items.first()!.name === "foo", "Restored item");
+    history.undo();
+    t.test(order.items.count === 0, "Undo add");
+  });
+
+  it("can undo managed property assignments", async t => {
+    class NoteRecord extends ManagedRecord {
+      @field.string() text = "";
+    }
+    let note = new NoteRecord();
+    let history = new ManagedHistory(note);
+    note.text = "A";
+    t.assert(history.canUndo, "Can undo");
+    history.undo();
+    t.test(note.text === "", "Undone");
+  });
+
+  it("re-creates records using a factory", async t => {
+    class NamedRecord extends ManagedRecord {
+      constructor(public name: string) {
+        super();
+      }
+    }
+    class ListRecord extends ManagedRecord {
+      @managedChild items = new ManagedList<NamedRecord>();
+    }
+    let list = new ListRecord();
+    let history = new ManagedHistory(list);
+    let item = new NamedRecord("foo");
+    list.items.add(item);
+    await Promise.resolve();
+    list.items.remove(item);
+    await new Promise(r => setTimeout(r, 1));
+    history.undo();
+    t.assert(list.items.count === 0, "Not re-created without factory");
+    history.redo();
+    history.recreate = (original: NamedRecord, values) => new NamedRecord(values.name);
+    history.undo();
+    t.test(list.items.count === 1 && list.items.first()!.name === "foo", "Re-created");
+  });
+
+  it("can undo to a named checkpoint", async t => {
+    let order = new OrderRecord();
+    let history = new ManagedHistory(order);
+    order.title = "A";
+    order.emitChange();
+    history.checkpoint("saved");
+    order.title = "B";
+    order.emitChange();
+    await Promise.resolve();
+    order.items.add(new ItemRecord());
+    t.assert(history.undoTo("saved"), "Checkpoint found");
+    t.test(order.title === "A" && order.items.count === 0);
+  });
+
+  it("can coalesce changes", async t => {
+    let order = new OrderRecord();
+    let history = new ManagedHistory(order, 1000);
+    for (let s of ["a", "ab", "abc"]) {
+      order.title = s;
+      order.emitChange();
+      await Promise.resolve();
+    }
+    history.undo();
+    t.test(order.title === "" && !history.canUndo);
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  managed,
+  ManagedList,
+  ManagedObject,
+  ManagedReferenceReleasedEvent,
+  ManagedWeakReference,
+} from "../../../dist";
+
+consider("ManagedWeakReference", () => {
+  it("does not count as a reference", t => {
+    class MyObject extends ManagedObject {
+      get count() {
+        return this.getReferenceCount();
+      }
+    }
+    let target = new MyObject();
+    let ref = new ManagedWeakReference(target);
+    t.assert(ref.get() === target, "Target");
+    t.test(target.count === 0, "Reference count");
+  });
+
+  it("releases the target when it is no longer referenced", async t => {
+    class Holder extends ManagedObject {
+      @managed target?: ManagedObject;
+    }
+    let reasons: string[] = [];
+    class MyWeakRef extends ManagedWeakReference {}
+    MyWeakRef.addEventHandler(e => {
+      if (e instanceof ManagedReferenceReleasedEvent) reasons.push(e.reason);
+    });
+    let target = new ManagedObject();
+    let holder = new Holder();
+    holder.target = target;
+    let ref = new MyWeakRef(target);
+    holder.target = undefined;
+    await Promise.resolve();
+    t.assert(!ref.get(), "Released");
+    t.assert(reasons.join() === "unreferenced", "Event emitted");
+    ref.set(target);
+    holder.target = target;
+    ref.clear();
+    holder.target = undefined;
+    await Promise.resolve();
+    t.test(reasons.length === 1, "No event after clear");
+  });
+
+  it("does not release the target when it is moved to another list", async t => {
+    let a = new ManagedList();
+    let b = new ManagedList();
+    let target = new ManagedObject();
+    a.add(target);
+    let ref = new ManagedWeakReference(target);
+    a.remove(target);
+    b.add(target);
+    await Promise.resolve();
+    t.assert(ref.get() === target, "Not released");
+    b.remove(target);
+    await Promise.resolve();
+    t.test(!ref.get(), "Released");
+  });
+
+  it("releases the target when it is destroyed", async t => {
+    class MyObject extends ManagedObject {
+      async destroyAsync() {
+        await this.destroyManagedAsync();
+      }
+    }
+    let released: ManagedReferenceReleasedEvent[] = [];
+    class MyWeakRef extends ManagedWeakReference<MyObject> {}
+    MyWeakRef.addEventHandler(e => {
+      if (e instanceof ManagedReferenceReleasedEvent) released.push(e);
+    });
+    let target = new MyObject();
+    let ref = new MyWeakRef(target);
+    await target.destroyAsync();
+    t.assert(!ref.get(), "Released");
+    t.test(
+      released.length === 1 &&
+        released[0].reason === "destroyed" &&
+        released[0].targetId === target.managedId
+    );
+  });
+});
@@ -0,0 +1,48 @@
+import { managed, managedChild, ManagedInspector, ManagedObject } from "../../../dist";
+
+consider("ManagedInspector", () => {
+  it("keeps track of live objects and references", async t => {
+    class Inspected extends ManagedObject {
+      async destroyAsync() {
+        await this.destroyManagedAsync();
+      }
+    }
+    class Parent extends ManagedObject {
+      @managedChild child = new Inspected();
+      @managed other?: ManagedObject;
+    }
+    ManagedInspector.enable();
+    try {
+      let a = new Inspected();
+      let parent = new Parent();
+      parent.other = parent.child;
+      await a.destroyAsync();
+
+      // check statistics
+      let stats = ManagedInspector.getStats();
+      t.assert(stats.created >= 3 && stats.destroyed >= 1, "Created and destroyed");
+      t.assert(stats.byClass.Inspected === 1 && stats.byClass.Parent === 1, "Per class");
+      t.assert(ManagedInspector.getLiveObjects("Inspected").length === 1, "Live objects");
+      t.assert(ManagedInspector.getInactive(0).length >= 2, "Inactive objects");
+      t.assert(!ManagedInspector.getInactive(60000).length, "Inactive threshold");
+
+      // check reference graph
+      let graph = ManagedInspector.getReferenceGraph(parent.child.managedId);
+      t.assert(graph.length === 2 && graph[0].className === "Inspected", "Nodes");
+      let referrers = graph[0].referrers!;
+      t.assert(referrers.length === 2 && graph[0].referenceCount === 2, "Referrers");
+      t.assert(
+        referrers.some(r => r.key === "child" && r.child),
+        "Child reference"
+      );
+      t.assert(
+        referrers.some(r => r.key === "other" && !r.child),
+        "Other reference"
+      );
+      t.assert(graph[1].references!.length === 2, "References from parent");
+    } finally {
+      ManagedInspector.disable();
+    }
+    t.test(!ManagedInspector.enabled && !ManagedInspector.getLiveObjects().length);
+  });
+});
@@ -0,0 +1,52 @@
+import { Application, ManagedService } from "../../../dist";
+
+consider("Application", () => {
+  it("waits for required services before activating", async t => {
+    let started = false;
+    class TestService extends ManagedService {
+      name = "App.Test";
+      protected async startAsync() {
+        await new Promise(r => setTimeout(r, 5));
+        started = true;
+      }
+    }
+    const MyApp = Application.with({ requiredServices: ["App.Test"] });
+    let app = new MyApp();
+    let activated = app.activateAsync();
+    new TestService().register();
+    await activated;
+    t.test(started && app.findService("App.Test"));
+    await app.destroyAsync();
+  });
+
+  it("waits for scoped required services before activating", async t => {
+    let started = false;
+    class TestService extends ManagedService {
+      name = "App.Scoped";
+      protected async startAsync() {
+        started = true;
+      }
+    }
+    const MyApp = Application.with({ requiredServices: ["App.Scoped"] });
+    let app = new MyApp();
+    let s = new TestService().register(app);
+    await app.activateAsync();
+    t.assert(started && s.serviceState === "ready", "Started");
+    t.test(app.findService("App.Scoped") === s && !ManagedService.find("App.Scoped"));
+    await app.destroyAsync();
+  });
+
+  it("fails to activate if required services are not registered in time", async t => {
+    const MyApp = Application.with({
+      requiredServices: ["App.Missing"],
+      requiredServicesTimeout: 10,
+    });
+    let app = new MyApp();
+    let error: any;
+    await app.activateAsync().catch(e => {
+      error = e;
+    });
+    t.test(error && /App\.Missing/.test(error.message), String(error));
+    await app.destroyAsync();
+  });
+});